@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { checkBpmnXml, layoutBpmnXml } from '../src/app/bpmn-modeler/layout/layout.headless';
+import { getConflictElementIds } from '../src/app/bpmn-modeler/layout/layout.collision';
+import { LAYOUT_ORIENTATIONS } from '../src/app/bpmn-modeler/layout/layout.settings';
+import type { CollisionConflict, LayoutOrientation } from '../src/app/bpmn-modeler/layout/layout.types';
+
+const USAGE = `Usage: layout <in.bpmn> -o <out.bpmn>
+       layout <in.bpmn> --check
+
+Lays out a BPMN diagram with the modeler's auto layout and writes the result.
+
+Options:
+  -o, --output <file>  Where to write the laid-out diagram (default: stdout)
+      --orientation <horizontal|vertical>
+                       Direction of the flow (default: the diagram's layout settings, else horizontal)
+      --check          Only report collisions in the current layout; exits with 1 if any are found
+  -h, --help           Show this help`;
+
+/** Crossings are listed but do not fail a check: many diagrams cannot be drawn without them. */
+function isFailure(conflict: CollisionConflict): boolean {
+  return conflict.kind !== 'crossing';
+}
+
+function formatConflict(conflict: CollisionConflict): string {
+  return `  ${conflict.kind.padEnd(11)} ${getConflictElementIds(conflict).join(', ')}: ${conflict.reason}`;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      orientation: { type: 'string' },
+      check: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1 || (values.check && values.output)) {
+    console.error(USAGE);
+    return 2;
+  }
+  const orientation = values.orientation as LayoutOrientation | undefined;
+  if (orientation && !LAYOUT_ORIENTATIONS.includes(orientation)) {
+    console.error(`Unknown orientation "${orientation}"\n${USAGE}`);
+    return 2;
+  }
+  const options = orientation ? { constants: { orientation } } : {};
+
+  const xml = await readFile(positionals[0], 'utf8');
+
+  if (values.check) {
+    const { conflicts, warnings } = await checkBpmnXml(xml, options);
+    warnings.forEach((warning) => console.error(`warning: ${warning}`));
+    const failures = conflicts.filter(isFailure);
+    if (conflicts.length === 0) {
+      console.log('No collisions found.');
+    } else {
+      console.log(`${failures.length} collision(s), ${conflicts.length - failures.length} crossing(s):`);
+      conflicts.forEach((conflict) => console.log(formatConflict(conflict)));
+    }
+    return failures.length > 0 ? 1 : 0;
+  }
+
+  const result = await layoutBpmnXml(xml, options);
+  result.warnings.forEach((warning) => console.error(`warning: ${warning}`));
+  if (values.output) {
+    await writeFile(values.output, result.xml, 'utf8');
+    console.error(
+      `Wrote ${values.output} (crossings ${result.ordering.crossingsBefore} → ${result.ordering.crossingsAfter}, ` +
+        `${result.conflicts.filter(isFailure).length} remaining collision(s))`
+    );
+  } else {
+    process.stdout.write(result.xml + '\n');
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+  }
+);
@@ -2,31 +2,158 @@ import { Component, ElementRef, ViewChild, AfterViewInit } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { lastValueFrom } from 'rxjs';
 import BpmnModeler from 'bpmn-js/lib/Modeler';
-import { BpmnLayoutService, type BpmnLayoutContext } from './layout';
+import {
+  BpmnLayoutService,
+  DEFAULT_LAYOUT_CONSTANTS,
+  ensureDiagramInterchange,
+  getConflictElementIds,
+  getConflictFocusPoint,
+  LayoutCommandsModule,
+  LayoutContextPadModule,
+  LayoutMarkersModule,
+  LaneInsertModule,
+  LaneDragModule,
+  LabelLockModule,
+  LineDriftModule,
+  layoutModdleDescriptor,
+  readLayoutConstraints,
+  readLayoutSettings,
+  pickLayoutSettings,
+  toLayoutConstants,
+  writeLayoutSettings,
+  LAYOUT_COMMANDS,
+  type LayoutCommands,
+  type AutoLayoutCommandContext,
+  type LayoutPreview,
+  type LayoutNodeConstraints,
+  type LayoutConstants,
+  type LayoutSettings,
+  type BpmnLayoutContext,
+  type CollisionConflict,
+  type OrderingResult
+} from './layout';
+import { CollisionPanelComponent, type CollisionReportEntry } from './collision-panel/collision-panel';
+import { LayoutPreviewLayer } from './layout-preview/layout-preview-layer';
+import { ConstraintsPanelComponent, type ConstraintCandidate } from './constraints-panel/constraints-panel';
+import { LayoutSettingsPanelComponent } from './layout-settings-panel/layout-settings-panel';
+import { ImportReportComponent, type ImportReport } from './import-report/import-report';
+import { DraftsPanelComponent } from './drafts-panel/drafts-panel';
+import { DraftStoreService, type DraftSnapshot } from './draft-store/draft-store.service';
+import { ProblemsPanelComponent, type ProblemReportEntry } from './problems-panel/problems-panel';
+import {
+  LINT_RULES,
+  lintDiagram,
+  type LintElement,
+  type LintRuleId,
+  type LintSeverities,
+  type LintSeverity
+} from './lint/bpmn-lint';
+import { LintOverlays } from './lint/lint-overlays';
+import { LayoutScorecardComponent, type LayoutScorecard } from './layout-scorecard/layout-scorecard';
+import { CrossingJumpsModule, type CrossingJumpRenderer } from './crossing-jumps/crossing-jump-renderer';
+import { CROSSING_JUMP_STYLES, type CrossingJumpStyle } from './crossing-jumps/crossing-jumps';
+import {
+  BPMN_MIME_TYPE,
+  NEW_DIAGRAM_XML,
+  downloadFile,
+  getDroppedFile,
+  svgToPng,
+  withExtension
+} from './diagram-file/diagram-file';
+
+interface SelectedElement {
+  id: string;
+  type: string;
+  parent?: unknown;
+  businessObject?: { name?: string };
+}
 
 interface ModelerServices {
-  elementRegistry: BpmnLayoutContext['elementRegistry'];
-  modeling: BpmnLayoutContext['modeling'] & { createShape: (shape: unknown, position: { x: number; y: number }, parent: unknown) => void };
-  canvas: BpmnLayoutContext['canvas'] & { zoom: (preset: string) => void };
+  elementRegistry: BpmnLayoutContext['elementRegistry'] & {
+    get: (id: string) => { id: string; businessObject?: { name?: string }; x?: number; y?: number; waypoints?: Array<{ x: number; y: number }>; labelTarget?: { type: string } } | undefined;
+    getAll: () => LintElement[];
+  };
+  modeling: BpmnLayoutContext['modeling'] & {
+    updateProperties: (element: unknown, properties: Record<string, unknown>) => void;
+    updateModdleProperties: (element: unknown, moddleElement: unknown, properties: Record<string, unknown>) => void;
+  };
+  canvas: BpmnLayoutContext['canvas'] & {
+    zoom: (preset: string) => void;
+    getLayer: (name: string, index?: number) => SVGElement;
+    addMarker: (elementId: string, marker: string) => void;
+    removeMarker: (elementId: string, marker: string) => void;
+    scrollToElement: (elementId: string, padding?: number) => void;
+  };
+  selection: {
+    select: (elements: unknown[]) => void;
+    get: () => SelectedElement[];
+  };
+  overlays: {
+    add: (elementId: string, type: string, overlay: { position: { left: number; top: number }; html: string }) => string;
+    remove: (filter: { type: string }) => void;
+  };
   bpmnFactory: { create: (type: string, opts: object) => unknown };
-  elementFactory: { createShape: (opts: object) => unknown };
-  dragDrop: { start: (event: MouseEvent, opts: { element: unknown }) => void };
   eventBus: { on: (event: string, fn: (e?: unknown) => void) => void };
+  commandStack: { execute: (command: string, context: object) => void };
 }
 
+const COLLISION_MARKER = 'collision-highlight';
+const DEFAULT_DIAGRAM = 'diagram.bpmn';
+const DRAFT_SAVE_DELAY = 1000;
+const COLLISION_OVERLAY = 'collision-focus';
+const LINT_SEVERITIES_KEY = 'bpmn-demo.lint-severities';
+const CROSSING_JUMPS_KEY = 'bpmn-demo.crossing-jumps';
+const LINT_SEVERITY_VALUES: LintSeverity[] = ['error', 'warning', 'off'];
+
 @Component({
   selector: 'app-bpmn-modeler',
   templateUrl: './bpmn-modeler.html',
   styleUrls: ['./bpmn-modeler.css'],
-  standalone: true
+  standalone: true,
+  imports: [
+    CollisionPanelComponent,
+    ConstraintsPanelComponent,
+    LayoutSettingsPanelComponent,
+    ImportReportComponent,
+    DraftsPanelComponent,
+    ProblemsPanelComponent,
+    LayoutScorecardComponent
+  ]
 })
 export class BpmnModelerComponent implements AfterViewInit {
   @ViewChild('container', { static: true }) private container!: ElementRef;
   private modeler: BpmnModeler | null = null;
+  lastOrdering: OrderingResult | null = null;
+  layoutScorecard: LayoutScorecard | null = null;
+  collisionEntries: CollisionReportEntry[] | null = null;
+  activeCollision: CollisionReportEntry | null = null;
+  layoutPreview: LayoutPreview | null = null;
+  animatePreview = true;
+  private previewLayer: LayoutPreviewLayer | null = null;
+  constrainedElement: SelectedElement | null = null;
+  constraintCandidates: ConstraintCandidate[] = [];
+  layoutConstants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS;
+  /** The part of `layoutConstants` stored in the diagram and edited in the settings panel. */
+  layoutSettings: LayoutSettings = pickLayoutSettings(DEFAULT_LAYOUT_CONSTANTS);
+  private settingsTimeout: ReturnType<typeof setTimeout> | undefined;
+  fileName = DEFAULT_DIAGRAM;
+  importReport: ImportReport | null = null;
+  fileDragOver = false;
+  recoveryDraft: DraftSnapshot | null = null;
+  draftSnapshots: DraftSnapshot[] | null = null;
+  private lastDraft: DraftSnapshot | null = null;
+  private draftTimeout: ReturnType<typeof setTimeout> | undefined;
+  problemEntries: ProblemReportEntry[] | null = null;
+  activeProblem: ProblemReportEntry | null = null;
+  lintSeverities: LintSeverities = readLintSeverities();
+  private lintOverlays: LintOverlays | null = null;
+  crossingJumpStyle: CrossingJumpStyle = readCrossingJumpStyle();
+  readonly crossingJumpStyles = Object.entries(CROSSING_JUMP_STYLES) as [CrossingJumpStyle, string][];
 
   constructor(
     private http: HttpClient,
-    private layoutService: BpmnLayoutService
+    private layoutService: BpmnLayoutService,
+    private draftStore: DraftStoreService
   ) {}
 
   private getLayoutContext(): BpmnLayoutContext {
@@ -39,110 +166,474 @@ export class BpmnModelerComponent implements AfterViewInit {
 
   async ngAfterViewInit() {
     this.modeler = new BpmnModeler({
-      container: this.container.nativeElement
+      container: this.container.nativeElement,
+      additionalModules: [
+        LayoutCommandsModule,
+        LayoutContextPadModule,
+        LayoutMarkersModule,
+        LaneInsertModule,
+        LaneDragModule,
+        LabelLockModule,
+        LineDriftModule,
+        CrossingJumpsModule
+      ],
+      moddleExtensions: { layout: layoutModdleDescriptor },
+      crossingJumps: { style: this.crossingJumpStyle },
+      layoutService: this.layoutService
     });
 
+    this.previewLayer = new LayoutPreviewLayer(this.canvas, this.elementRegistry);
+    this.lintOverlays = new LintOverlays(this.canvas, this.overlays, this.elementRegistry);
+    this.eventBus.on('commandStack.changed', () => {
+      this.discardLayoutPreview();
+      this.refreshConstraintsPanel();
+      this.refreshLayoutSettings();
+      // An open problems list follows the edits
+      if (this.problemEntries) this.validateDiagram();
+    });
+    this.eventBus.on('selection.changed', () => this.refreshConstraintsPanel());
+    this.eventBus.on('commandStack.changed', (event: unknown) => {
+      // Imports clear the command stack; only edits produce a draft
+      if ((event as { trigger?: string } | undefined)?.trigger !== 'clear') this.scheduleDraftSave();
+    });
+
+    let loadedXml = '';
+    let loadedAt = 0;
+    try {
+      const response = await lastValueFrom(
+        this.http.get(DEFAULT_DIAGRAM, { responseType: 'text', observe: 'response' })
+      );
+      loadedXml = response.body ?? '';
+      loadedAt = Date.parse(response.headers.get('Last-Modified') ?? '') || 0;
+      await this.openDiagram(loadedXml, DEFAULT_DIAGRAM);
+    } catch (err) {
+      this.importReport = { title: `Could not load ${DEFAULT_DIAGRAM}`, error: errorMessage(err), warnings: [] };
+    }
+    await this.offerDraftRecovery(loadedXml, loadedAt);
+  }
+
+  /**
+   * Imports `xml` into the modeler, replacing the current diagram. Errors and warnings are shown in
+   * the import report; after a failed import the previous diagram stays on the canvas.
+   */
+  async openDiagram(xml: string, fileName: string): Promise<boolean> {
+    this.importReport = null;
     try {
-      const xml = await lastValueFrom(this.http.get('diagram.bpmn', { responseType: 'text' }));
-      await this.modeler.importXML(xml);
+      // Files exported without diagram interchange would otherwise import as an empty canvas
+      const importable = await ensureDiagramInterchange(xml);
+      const { warnings } = await this.modeler!.importXML(importable.xml);
+      this.fileName = fileName;
+      this.resetDiagramState();
       this.canvas.zoom('fit-viewport');
-      this.initLineDrift();
+      if (warnings.length > 0) {
+        this.importReport = { title: `Imported ${fileName} with warnings`, error: null, warnings: warnings.map(errorMessage) };
+      }
+      return true;
+    } catch (err) {
+      const warnings = (err as { warnings?: unknown[] }).warnings ?? [];
+      this.importReport = { title: `Could not open ${fileName}`, error: errorMessage(err), warnings: warnings.map(errorMessage) };
+      return false;
+    }
+  }
+
+  newDiagram() {
+    return this.openDiagram(NEW_DIAGRAM_XML, DEFAULT_DIAGRAM);
+  }
+
+  async onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = getDroppedFile(input.files);
+    input.value = '';
+    if (file) await this.openDiagram(await file.text(), file.name);
+  }
+
+  onDragOver(event: DragEvent) {
+    if (!event.dataTransfer?.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    this.fileDragOver = true;
+  }
+
+  async onDrop(event: DragEvent) {
+    const file = getDroppedFile(event.dataTransfer?.files);
+    this.fileDragOver = false;
+    if (!file) return;
+    event.preventDefault();
+    await this.openDiagram(await file.text(), file.name);
+  }
+
+  async saveDiagram() {
+    try {
+      const { xml } = await this.modeler!.saveXML({ format: true });
+      if (!xml) return;
+      downloadFile(withExtension(this.fileName, 'bpmn'), xml, BPMN_MIME_TYPE);
+      clearTimeout(this.draftTimeout);
+      const draft = xml === this.lastDraft?.xml ? this.lastDraft : await this.storeDraft(xml);
+      await this.draftStore.markSaved(draft.id);
     } catch (err) {
-      console.error('Error loading BPMN diagram', err);
+      this.importReport = { title: 'Could not save the diagram', error: errorMessage(err), warnings: [] };
     }
   }
 
+  async exportSvg() {
+    try {
+      const { svg } = await this.modeler!.saveSVG();
+      downloadFile(withExtension(this.fileName, 'svg'), svg, 'image/svg+xml');
+    } catch (err) {
+      this.importReport = { title: 'Could not export SVG', error: errorMessage(err), warnings: [] };
+    }
+  }
+
+  async exportPng() {
+    try {
+      const { svg } = await this.modeler!.saveSVG();
+      downloadFile(withExtension(this.fileName, 'png'), await svgToPng(svg), 'image/png');
+    } catch (err) {
+      this.importReport = { title: 'Could not export PNG', error: errorMessage(err), warnings: [] };
+    }
+  }
+
+  async showDraftVersions() {
+    try {
+      this.draftSnapshots = await this.draftStore.list();
+    } catch (err) {
+      this.importReport = { title: 'Could not read autosaved versions', error: errorMessage(err), warnings: [] };
+    }
+  }
+
+  async restoreDraft(snapshot: DraftSnapshot) {
+    this.recoveryDraft = null;
+    if (!(await this.openDiagram(snapshot.xml, snapshot.fileName))) return;
+    this.lastDraft = snapshot;
+    const root = this.canvas.getRootElement();
+    if (!readLayoutSettings(root)) writeLayoutSettings(root, snapshot.settings, this.modeling, this.bpmnFactory);
+  }
+
+  /** Keeps the loaded diagram and stops offering the draft on later visits. */
+  async dismissDraftRecovery() {
+    const draft = this.recoveryDraft;
+    this.recoveryDraft = null;
+    if (!draft) return;
+    try {
+      await this.draftStore.markDismissed(draft.id);
+    } catch (err) {
+      console.warn('Could not dismiss the draft', err);
+    }
+  }
+
+  /**
+   * Offers the newest draft if it was never saved to a file or dismissed and is newer than the
+   * loaded diagram.
+   */
+  private async offerDraftRecovery(loadedXml: string, loadedAt: number) {
+    const latest = await this.draftStore.latest().catch(() => null);
+    if (!latest || latest.saved || latest.dismissed) return;
+    if (latest.savedAt > loadedAt && latest.xml !== loadedXml) {
+      this.recoveryDraft = latest;
+    }
+  }
+
+  private scheduleDraftSave() {
+    clearTimeout(this.draftTimeout);
+    this.draftTimeout = setTimeout(async () => {
+      try {
+        const { xml } = await this.modeler!.saveXML({ format: true });
+        if (xml && xml !== this.lastDraft?.xml) await this.storeDraft(xml);
+      } catch (err) {
+        console.warn('Could not autosave the draft', err);
+      }
+    }, DRAFT_SAVE_DELAY);
+  }
+
+  private async storeDraft(xml: string): Promise<DraftSnapshot> {
+    this.lastDraft = await this.draftStore.save({ fileName: this.fileName, xml, settings: this.layoutSettings });
+    if (this.draftSnapshots) this.draftSnapshots = await this.draftStore.list();
+    return this.lastDraft;
+  }
+
+  /** Clears the state that referred to elements of the previous diagram. */
+  private resetDiagramState() {
+    this.discardLayoutPreview();
+    this.closeCollisionPanel();
+    this.closeProblemsPanel();
+    this.lastOrdering = null;
+    this.layoutScorecard = null;
+    this.refreshConstraintsPanel();
+    this.refreshLayoutSettings();
+  }
+
   get elementRegistry(): ModelerServices['elementRegistry'] { return this.modeler!.get('elementRegistry'); }
   get modeling(): ModelerServices['modeling'] { return this.modeler!.get('modeling'); }
   get canvas(): ModelerServices['canvas'] { return this.modeler!.get('canvas'); }
   get bpmnFactory(): ModelerServices['bpmnFactory'] { return this.modeler!.get('bpmnFactory'); }
-  get elementFactory(): ModelerServices['elementFactory'] { return this.modeler!.get('elementFactory'); }
-  get dragDrop(): ModelerServices['dragDrop'] { return this.modeler!.get('dragDrop'); }
   get eventBus(): ModelerServices['eventBus'] { return this.modeler!.get('eventBus'); }
+  get commandStack(): ModelerServices['commandStack'] { return this.modeler!.get('commandStack'); }
+  get layoutCommands(): LayoutCommands { return this.modeler!.get('layoutCommands'); }
+  get selection(): ModelerServices['selection'] { return this.modeler!.get('selection'); }
+  get overlays(): ModelerServices['overlays'] { return this.modeler!.get('overlays'); }
+  get crossingJumpRenderer(): CrossingJumpRenderer { return this.modeler!.get('crossingJumpRenderer'); }
 
-  addTaskToLane() {
-    this.addElementToLane('bpmn:Task', { name: 'New Task' });
+  /** Runs auto layout as one undo step, storing `settings` in the diagram first when given. */
+  autoOrganize(settings?: LayoutSettings) {
+    const before = this.layoutService.computeMetrics(this.getLayoutContext(), this.layoutConstants);
+    const context: AutoLayoutCommandContext = { settings };
+    this.commandStack.execute(LAYOUT_COMMANDS.auto, context);
+    this.lastOrdering = context.result ?? null;
+    this.layoutScorecard = {
+      before,
+      after: this.layoutService.computeMetrics(this.getLayoutContext(), this.layoutConstants)
+    };
   }
 
-  addGatewayToLane() {
-    this.addElementToLane('bpmn:ExclusiveGateway', { name: 'Gateway' });
+  previewLayout() {
+    this.layoutPreview = this.layoutService.previewLayout(this.getLayoutContext(), this.layoutConstants);
+    if (this.layoutPreview) {
+      this.previewLayer?.show(this.layoutPreview, this.animatePreview);
+    }
   }
 
-  addEventToLane() {
-    this.addElementToLane('bpmn:IntermediateThrowEvent', { name: 'Event' });
+  acceptLayoutPreview() {
+    this.discardLayoutPreview();
+    this.autoOrganize();
   }
 
-  onDragStart(event: MouseEvent, type: string) {
-    event.stopPropagation();
-    event.preventDefault();
+  acceptLayoutPreviewForSelectedLane() {
+    const laneId = this.getSelectedLaneId();
+    if (!laneId) return;
+    this.discardLayoutPreview();
+    this.commandStack.execute(LAYOUT_COMMANDS.applyLane, { laneId });
+  }
 
-    const shape = this.elementFactory.createShape({
-      type: type,
-      businessObject: this.bpmnFactory.create(type, { name: 'New ' + type.split(':')[1] })
-    });
+  layoutSelection() {
+    const elementIds = this.selection
+      .get()
+      .filter((el) => el.type !== 'bpmn:Lane' && el.type !== 'bpmn:Participant' && el.type !== 'label' && !('waypoints' in el))
+      .map((el) => el.id);
+    if (elementIds.length === 0) return;
+    this.commandStack.execute(LAYOUT_COMMANDS.scope, { scope: { elementIds } });
+  }
 
-    this.dragDrop.start(event, { element: shape });
+  layoutSelectedLane() {
+    const containerId = this.getSelectedLaneId();
+    if (!containerId) return;
+    this.commandStack.execute(LAYOUT_COMMANDS.scope, { scope: { containerId } });
   }
 
-  private addElementToLane(type: string, options: any = {}) {
-    // Find the first participant (pool/lane)
-    const participant = this.elementRegistry.filter((element: any) => element.type === 'bpmn:Participant')[0];
+  discardLayoutPreview() {
+    this.previewLayer?.clear();
+    this.layoutPreview = null;
+  }
 
-    if (!participant) {
-      console.warn('No participant found to add element to.');
-      return;
+  getSelectedLaneId(): string | null {
+    for (const el of this.selection.get()) {
+      let current: { id: string; type: string; parent?: unknown } | undefined = el;
+      while (current) {
+        if (current.type === 'bpmn:Lane' || current.type === 'bpmn:Participant') return current.id;
+        current = current.parent as typeof current;
+      }
     }
+    return null;
+  }
 
-    // Determine a position inside the lane
-    // Use participant bounds to constrain, but for demo, we'll shift x slightly each time
-    const participantEl = participant as { children?: unknown[]; y?: number; height?: number };
-    const currentElements = participantEl.children?.length ?? 0;
-    const x = 200 + (currentElements * 120);
-    const y = (participantEl.y ?? 0) + ((participantEl.height ?? 0) / 2);
-
-    // Create the shape using elementFactory as per best practices
-    const shape = this.elementFactory.createShape({
-      type: type,
-      businessObject: this.bpmnFactory.create(type, options)
-    });
+  get constrainedElementConstraints(): LayoutNodeConstraints {
+    return readLayoutConstraints(this.constrainedElement?.businessObject) ?? {};
+  }
+
+  updateConstraints(properties: Record<string, unknown>) {
+    if (!this.constrainedElement) return;
+    this.modeling.updateProperties(this.constrainedElement, properties);
+  }
+
+  private refreshConstraintsPanel() {
+    const selected = this.selection.get();
+    const element = selected.length === 1 ? selected[0] : null;
+    const isFlowNode =
+      element &&
+      !('waypoints' in element) &&
+      element.type !== 'label' &&
+      !['bpmn:Lane', 'bpmn:Participant', 'bpmn:Process'].includes(element.type);
+    this.constrainedElement = isFlowNode ? element : null;
+    this.constraintCandidates = this.constrainedElement
+      ? this.elementRegistry
+          .filter((e) => e.id !== element!.id && e.type !== 'label' && e.width != null && !['bpmn:Lane', 'bpmn:Participant'].includes(e.type))
+          .map((e) => ({ id: e.id, name: (e.businessObject as { name?: string } | undefined)?.name || e.id }))
+      : [];
+  }
 
-    // The modeling service handles adding it to the XML and the DI (Diagram Interchange)
-    // Passing 'participant' as the parent ensures it belongs to the correct process/lane
-    this.modeling.createShape(shape, { x, y }, participant);
+  /** Stores valid settings in the diagram and re-runs the layout once the user pauses typing. */
+  updateLayoutSettings(settings: LayoutSettings) {
+    clearTimeout(this.settingsTimeout);
+    this.settingsTimeout = setTimeout(() => {
+      this.autoOrganize(settings);
+    }, 300);
   }
 
-  autoOrganize() {
-    this.layoutService.autoLayout(this.getLayoutContext());
+  private refreshLayoutSettings() {
+    this.layoutConstants = toLayoutConstants(readLayoutSettings(this.canvas.getRootElement()));
+    this.layoutSettings = pickLayoutSettings(this.layoutConstants);
   }
 
   detectCollisions() {
-    const conflicts = this.layoutService.detectCollisions(this.getLayoutContext());
-    console.log('Collision Detection Report:', conflicts);
-    if (conflicts.length > 0) {
-      alert(`Found ${conflicts.length} line collisions! Check console for details.`);
-    } else {
-      alert('No collisions detected.');
-    }
+    this.clearCollisionHighlight();
+    const conflicts = this.layoutService.detectCollisions(this.getLayoutContext(), this.layoutConstants);
+    this.collisionEntries = conflicts.map((conflict) => this.toReportEntry(conflict));
   }
 
-  private initLineDrift() {
-    let timeout: ReturnType<typeof setTimeout>;
-    const debouncedCheck = () => {
-      clearTimeout(timeout);
-      timeout = setTimeout(() => this.layoutService.resolveEdgeCollisions(this.getLayoutContext()), 300);
-    };
+  closeCollisionPanel() {
+    this.clearCollisionHighlight();
+    this.collisionEntries = null;
+  }
 
-    this.eventBus.on('connection.changed', () => debouncedCheck());
-    this.eventBus.on('elements.changed', (event: unknown) => {
-      const e = event as { elements?: Array<{ type?: string }> };
-      const elements = e.elements ?? [];
-      const hasConnectionOrShape = elements.some((el) =>
-        el?.type === 'bpmn:SequenceFlow' || (el?.type?.startsWith('bpmn:') && el.type !== 'bpmn:Process' && el.type !== 'bpmn:Participant' && el.type !== 'bpmn:Lane')
-      );
-      if (hasConnectionOrShape) debouncedCheck();
+  focusCollision(entry: CollisionReportEntry) {
+    this.clearCollisionHighlight();
+    this.activeCollision = entry;
+
+    const ids = getConflictElementIds(entry.conflict).filter((id) => this.elementRegistry.get(id));
+    if (ids.length === 0) return;
+    this.selection.select(ids.map((id) => this.elementRegistry.get(id)));
+    for (const id of ids) this.canvas.addMarker(id, COLLISION_MARKER);
+    this.canvas.scrollToElement(ids[0], 100);
+
+    const anchor = this.elementRegistry.get(ids[0])!;
+    const origin = anchor.waypoints
+      ? {
+          x: Math.min(...anchor.waypoints.map((w) => w.x)),
+          y: Math.min(...anchor.waypoints.map((w) => w.y))
+        }
+      : { x: anchor.x ?? 0, y: anchor.y ?? 0 };
+    const point = getConflictFocusPoint(entry.conflict);
+    this.overlays.add(ids[0], COLLISION_OVERLAY, {
+      position: { left: point.x - origin.x - 8, top: point.y - origin.y - 8 },
+      html: '<div class="collision-overlay"></div>'
     });
-    this.eventBus.on('shape.move.end', () => debouncedCheck());
-    this.eventBus.on('bendpoint.move.end', () => debouncedCheck());
-    this.eventBus.on('connectionSegment.move.end', () => debouncedCheck());
   }
+
+  fixCollision(entry: CollisionReportEntry) {
+    this.commandStack.execute(LAYOUT_COMMANDS.resolveConflict, { conflict: entry.conflict });
+    this.detectCollisions();
+  }
+
+  private clearCollisionHighlight() {
+    if (this.activeCollision) {
+      for (const id of getConflictElementIds(this.activeCollision.conflict)) {
+        if (this.elementRegistry.get(id)) this.canvas.removeMarker(id, COLLISION_MARKER);
+      }
+    }
+    this.overlays.remove({ type: COLLISION_OVERLAY });
+    this.activeCollision = null;
+  }
+
+  validateDiagram() {
+    const problems = lintDiagram(this.elementRegistry, this.lintSeverities);
+    const activeProblem = this.activeProblem?.problem;
+    this.problemEntries = problems.map((problem) => ({
+      problem,
+      title: this.elementRegistry.get(problem.elementId)?.businessObject?.name || problem.elementId
+    }));
+    this.activeProblem =
+      this.problemEntries.find(
+        (entry) => entry.problem.elementId === activeProblem?.elementId && entry.problem.ruleId === activeProblem.ruleId
+      ) ?? null;
+    this.lintOverlays?.show(problems);
+  }
+
+  closeProblemsPanel() {
+    this.lintOverlays?.clear();
+    this.problemEntries = null;
+    this.activeProblem = null;
+  }
+
+  focusProblem(entry: ProblemReportEntry) {
+    this.activeProblem = entry;
+    const element = this.elementRegistry.get(entry.problem.elementId);
+    if (!element || element === this.canvas.getRootElement()) return;
+    this.selection.select([element]);
+    this.canvas.scrollToElement(element.id, 100);
+  }
+
+  updateLintSeverity({ ruleId, severity }: { ruleId: LintRuleId; severity: LintSeverity }) {
+    this.lintSeverities = { ...this.lintSeverities, [ruleId]: severity };
+    try {
+      localStorage.setItem(LINT_SEVERITIES_KEY, JSON.stringify(this.lintSeverities));
+    } catch (err) {
+      console.warn('Could not store the rule severities', err);
+    }
+    this.validateDiagram();
+  }
+
+  onCrossingJumpStyleSelected(event: Event) {
+    const style = (event.target as HTMLSelectElement).value as CrossingJumpStyle;
+    this.crossingJumpStyle = style;
+    this.crossingJumpRenderer.setStyle(style);
+    try {
+      localStorage.setItem(CROSSING_JUMPS_KEY, style);
+    } catch (err) {
+      console.warn('Could not store the line crossing style', err);
+    }
+  }
+
+  private toReportEntry(conflict: CollisionConflict): CollisionReportEntry {
+    const nameOf = (id: string) => this.elementRegistry.get(id)?.businessObject?.name || id;
+    switch (conflict.kind) {
+      case 'edge-edge':
+      case 'crossing':
+        return {
+          conflict,
+          title: `${nameOf(conflict.connections[0])} ↔ ${nameOf(conflict.connections[1])}`,
+          detail: conflict.reason,
+          fixable: conflict.kind === 'edge-edge'
+        };
+      case 'edge-shape':
+        return {
+          conflict,
+          title: `${nameOf(conflict.connectionId)} → ${nameOf(conflict.shapeId)}`,
+          detail: conflict.reason,
+          fixable: true
+        };
+      case 'shape-shape':
+        return {
+          conflict,
+          title: `${nameOf(conflict.shapes[0])} ↔ ${nameOf(conflict.shapes[1])}`,
+          detail: conflict.reason,
+          fixable: true
+        };
+      case 'label-edge':
+        return {
+          conflict,
+          title: `${nameOf(conflict.labelId)} ↔ ${nameOf(conflict.connectionId)}`,
+          detail: conflict.reason,
+          fixable: this.elementRegistry.get(conflict.labelId)?.labelTarget?.type === 'bpmn:SequenceFlow'
+        };
+    }
+  }
+}
+
+/** Stored entries for unknown rules or with unknown severities are dropped; those rules keep their defaults. */
+function readLintSeverities(): LintSeverities {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(LINT_SEVERITIES_KEY) ?? '{}');
+    if (stored === null || typeof stored !== 'object') return {};
+    const ruleIds = Object.keys(LINT_RULES);
+    return Object.fromEntries(
+      Object.entries(stored).filter(
+        ([ruleId, severity]) => ruleIds.includes(ruleId) && LINT_SEVERITY_VALUES.includes(severity)
+      )
+    ) as LintSeverities;
+  } catch {
+    return {};
+  }
+}
+
+function readCrossingJumpStyle(): CrossingJumpStyle {
+  try {
+    const style = localStorage.getItem(CROSSING_JUMPS_KEY);
+    return style && style in CROSSING_JUMP_STYLES ? (style as CrossingJumpStyle) : 'off';
+  } catch {
+    return 'off';
+  }
+}
+
+/** bpmn-js reports import warnings as Error objects despite typing them as strings. */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error);
 }
@@ -0,0 +1,28 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import type { CollisionConflict } from '../layout';
+
+export interface CollisionReportEntry {
+  conflict: CollisionConflict;
+  title: string;
+  detail: string;
+  fixable: boolean;
+}
+
+@Component({
+  selector: 'app-collision-panel',
+  templateUrl: './collision-panel.html',
+  styleUrls: ['./collision-panel.css'],
+  standalone: true
+})
+export class CollisionPanelComponent {
+  @Input() entries: CollisionReportEntry[] = [];
+  @Input() activeEntry: CollisionReportEntry | null = null;
+  @Output() focusEntry = new EventEmitter<CollisionReportEntry>();
+  @Output() fixEntry = new EventEmitter<CollisionReportEntry>();
+  @Output() closed = new EventEmitter<void>();
+
+  onFix(event: MouseEvent, entry: CollisionReportEntry) {
+    event.stopPropagation();
+    this.fixEntry.emit(entry);
+  }
+}
@@ -0,0 +1,35 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import type { LayoutNodeConstraints } from '../layout';
+
+export interface ConstraintCandidate {
+  id: string;
+  name: string;
+}
+
+@Component({
+  selector: 'app-constraints-panel',
+  templateUrl: './constraints-panel.html',
+  styleUrls: ['./constraints-panel.css'],
+  standalone: true
+})
+export class ConstraintsPanelComponent {
+  @Input() elementName = '';
+  @Input() constraints: LayoutNodeConstraints = {};
+  @Input() candidates: ConstraintCandidate[] = [];
+  @Output() changed = new EventEmitter<Record<string, unknown>>();
+
+  onPinnedChange(event: Event) {
+    const checked = (event.target as HTMLInputElement).checked;
+    this.changed.emit({ 'layout:pinned': checked || undefined });
+  }
+
+  onReferenceChange(property: 'sameRankAs' | 'above', event: Event) {
+    const value = (event.target as HTMLSelectElement).value;
+    this.changed.emit({ [`layout:${property}`]: value || undefined });
+  }
+
+  onMinSpacingChange(event: Event) {
+    const value = (event.target as HTMLInputElement).valueAsNumber;
+    this.changed.emit({ 'layout:minSpacing': Number.isFinite(value) && value > 0 ? Math.round(value) : undefined });
+  }
+}
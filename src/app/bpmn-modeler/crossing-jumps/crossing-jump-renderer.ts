@@ -0,0 +1,110 @@
+import { extractSegments, type Point, type Segment } from '../layout';
+import { createJumpPath, findCrossingJumps, type CrossingJumpStyle } from './crossing-jumps';
+
+interface JumpConnection {
+  id: string;
+  type: string;
+  waypoints?: Point[];
+}
+
+interface RenderContext {
+  gfx: SVGElement;
+  element: JumpConnection;
+  attrs?: object;
+}
+
+interface EventBusLike {
+  on(event: 'render.connection', priority: number, fn: (event: unknown, context: RenderContext) => unknown): void;
+  on(event: 'elements.changed', priority: number, fn: (event: { elements?: JumpConnection[] }) => void): void;
+  on(event: 'import.done', priority: number, fn: () => void): void;
+  fire: (event: string, data: { element: JumpConnection }) => void;
+}
+
+interface BpmnRendererLike {
+  drawConnection: (gfx: SVGElement, connection: JumpConnection, attrs?: object) => SVGElement;
+}
+
+interface ElementRegistryLike {
+  filter: (predicate: (element: JumpConnection) => boolean) => JumpConnection[];
+}
+
+/** Above the bpmn-js renderer, which then draws everything this one does not. */
+const JUMP_RENDER_PRIORITY = 1500;
+
+/**
+ * Draws sequence flows like bpmn-js does, but with a small jump (or a gap) where a horizontal segment
+ * crosses a vertical segment of another flow. Since the jumps are part of the drawn path, SVG and PNG
+ * exports show them too. Off unless a style is configured (`crossingJumps.style`) or set.
+ */
+export class CrossingJumpRenderer {
+  static $inject = ['config.crossingJumps', 'eventBus', 'bpmnRenderer', 'elementRegistry'];
+
+  private style: CrossingJumpStyle;
+  /** The jumps each flow was last drawn with, to redraw flows whose crossings changed. */
+  private drawnJumps = new Map<string, string>();
+
+  constructor(
+    config: { style?: CrossingJumpStyle } | undefined,
+    private eventBus: EventBusLike,
+    private bpmnRenderer: BpmnRendererLike,
+    private elementRegistry: ElementRegistryLike
+  ) {
+    this.style = config?.style ?? 'off';
+
+    eventBus.on('render.connection', JUMP_RENDER_PRIORITY, (_event, { gfx, element, attrs }) => {
+      if (this.style === 'off' || element.type !== 'bpmn:SequenceFlow' || !element.waypoints) return undefined;
+      const line = this.bpmnRenderer.drawConnection(gfx, element, attrs);
+      const jumps = findCrossingJumps(element.id, element.waypoints, this.getSegments());
+      this.drawnJumps.set(element.id, JSON.stringify(jumps));
+      if (jumps.some((segmentJumps) => segmentJumps.length > 0)) {
+        line.setAttribute('d', createJumpPath(element.waypoints, jumps, this.style));
+      }
+      return line;
+    });
+
+    // Flows are drawn one by one on import, before the flows they cross exist
+    eventBus.on('import.done', 500, () => {
+      if (this.style !== 'off') this.redrawAll();
+    });
+
+    // Moving one flow changes the jumps of the flows it crosses (or no longer crosses)
+    eventBus.on('elements.changed', 500, ({ elements = [] }) => {
+      if (this.style === 'off') return;
+      const changed = new Set(elements.map((el) => el.id));
+      const segments = this.getSegments();
+      for (const flow of this.getSequenceFlows()) {
+        if (changed.has(flow.id)) continue;
+        const jumps = JSON.stringify(findCrossingJumps(flow.id, flow.waypoints!, segments));
+        if (jumps !== this.drawnJumps.get(flow.id)) this.eventBus.fire('element.changed', { element: flow });
+      }
+    });
+  }
+
+  getStyle(): CrossingJumpStyle {
+    return this.style;
+  }
+
+  setStyle(style: CrossingJumpStyle): void {
+    if (style === this.style) return;
+    this.style = style;
+    this.redrawAll();
+  }
+
+  private redrawAll(): void {
+    this.drawnJumps.clear();
+    for (const flow of this.getSequenceFlows()) this.eventBus.fire('element.changed', { element: flow });
+  }
+
+  private getSequenceFlows(): JumpConnection[] {
+    return this.elementRegistry.filter((el) => el.type === 'bpmn:SequenceFlow' && el.waypoints != null);
+  }
+
+  private getSegments(): Segment[] {
+    return this.getSequenceFlows().flatMap((flow) => extractSegments(flow.id, flow.waypoints!));
+  }
+}
+
+export const CrossingJumpsModule = {
+  __init__: ['crossingJumpRenderer'],
+  crossingJumpRenderer: ['type', CrossingJumpRenderer]
+};
@@ -0,0 +1,89 @@
+import { extractSegments, findSegmentIntersection, type Point, type Segment } from '../layout';
+
+export type CrossingJumpStyle = 'off' | 'hop' | 'gap';
+
+export const CROSSING_JUMP_STYLES: Record<CrossingJumpStyle, string> = {
+  off: 'Plain',
+  hop: 'Line jumps',
+  gap: 'Gaps'
+};
+
+/** Half the width of a jump. */
+const JUMP_RADIUS = 5;
+/** The corner radius bpmn-js draws sequence flows with; jumps stay out of the rounded part. */
+const CORNER_RADIUS = 5;
+
+/**
+ * Where the connection's horizontal segments cross vertical segments of the other connections, per
+ * segment and in drawing order. Crossings too close to a bend or to the previous jump are dropped.
+ */
+export function findCrossingJumps(connectionId: string, waypoints: Point[], segments: Segment[]): Point[][] {
+  const verticals = segments.filter((s) => s.connectionId !== connectionId && s.orientation === 'vertical');
+  return extractSegments(connectionId, waypoints).map((segment) => {
+    if (segment.orientation !== 'horizontal') return [];
+    const start = segment.p1.x;
+    const length = Math.abs(segment.p2.x - start);
+    const crossings = verticals
+      .map((vertical) => findSegmentIntersection(segment, vertical))
+      .filter((point): point is Point => point != null)
+      .sort((a, b) => Math.abs(a.x - start) - Math.abs(b.x - start));
+
+    const jumps: Point[] = [];
+    for (const point of crossings) {
+      const offset = Math.abs(point.x - start);
+      if (offset < CORNER_RADIUS + JUMP_RADIUS || length - offset < CORNER_RADIUS + JUMP_RADIUS) continue;
+      const previous = jumps[jumps.length - 1];
+      if (previous && Math.abs(point.x - previous.x) < 2 * JUMP_RADIUS) continue;
+      jumps.push(point);
+    }
+    return jumps;
+  });
+}
+
+/**
+ * SVG path data for the waypoints with bpmn-js' rounded corners, jumping (a half circle above the
+ * line) or leaving a gap at the given crossings.
+ */
+export function createJumpPath(waypoints: Point[], jumps: Point[][], style: Exclude<CrossingJumpStyle, 'off'>): string {
+  const parts = [`M ${waypoints[0].x} ${waypoints[0].y}`];
+  for (let i = 1; i < waypoints.length; i++) {
+    const before = waypoints[i - 1];
+    const point = waypoints[i];
+    const after = waypoints[i + 1];
+
+    const direction = Math.sign(point.x - before.x);
+    for (const jump of jumps[i - 1] ?? []) {
+      const end = jump.x + direction * JUMP_RADIUS;
+      parts.push(`L ${jump.x - direction * JUMP_RADIUS} ${jump.y}`);
+      parts.push(
+        style === 'hop'
+          ? `A ${JUMP_RADIUS} ${JUMP_RADIUS} 0 0 ${direction > 0 ? 1 : 0} ${end} ${jump.y}`
+          : `M ${end} ${jump.y}`
+      );
+    }
+
+    const radius = after
+      ? Math.min(CORNER_RADIUS, distance(before, point), distance(point, after))
+      : 0;
+    if (!radius) {
+      parts.push(`L ${point.x} ${point.y}`);
+      continue;
+    }
+    const cornerStart = pointTowards(point, before, radius);
+    const control1 = pointTowards(point, before, radius / 2);
+    const control2 = pointTowards(point, after, radius / 2);
+    const cornerEnd = pointTowards(point, after, radius);
+    parts.push(`L ${cornerStart.x} ${cornerStart.y}`);
+    parts.push(`C ${control1.x} ${control1.y} ${control2.x} ${control2.y} ${cornerEnd.x} ${cornerEnd.y}`);
+  }
+  return parts.join(' ');
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function pointTowards(from: Point, to: Point, length: number): Point {
+  const total = distance(from, to);
+  return { x: from.x + ((to.x - from.x) * length) / total, y: from.y + ((to.y - from.y) * length) / total };
+}
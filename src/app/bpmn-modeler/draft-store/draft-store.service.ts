@@ -0,0 +1,84 @@
+import { Injectable } from '@angular/core';
+import type { LayoutSettings } from '../layout';
+
+export interface DraftSnapshot {
+  id: number;
+  fileName: string;
+  xml: string;
+  settings: LayoutSettings;
+  savedAt: number;
+  /** True once the snapshot has been written to a file with "Save as .bpmn". */
+  saved: boolean;
+  /** True once the user chose to keep the loaded file instead of recovering this snapshot. */
+  dismissed: boolean;
+}
+
+export type NewDraftSnapshot = Omit<DraftSnapshot, 'id' | 'savedAt' | 'saved' | 'dismissed'>;
+
+const DB_NAME = 'bpmn-demo';
+const DB_VERSION = 1;
+const STORE = 'drafts';
+const MAX_SNAPSHOTS = 20;
+
+/** Autosaved drafts of the edited diagram, kept in IndexedDB so they survive a reload or crash. */
+@Injectable({ providedIn: 'root' })
+export class DraftStoreService {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /** Stores a new snapshot and drops the oldest ones beyond the history limit. */
+  async save(draft: NewDraftSnapshot): Promise<DraftSnapshot> {
+    const record = { ...draft, savedAt: Date.now(), saved: false, dismissed: false };
+    const id = (await this.request('readwrite', (store) => store.add(record))) as number;
+    const ids = ((await this.request('readonly', (store) => store.getAllKeys())) as number[]).sort((a, b) => a - b);
+    for (const staleId of ids.slice(0, Math.max(0, ids.length - MAX_SNAPSHOTS))) {
+      await this.request('readwrite', (store) => store.delete(staleId));
+    }
+    return { ...record, id };
+  }
+
+  /** All snapshots, newest first. */
+  async list(): Promise<DraftSnapshot[]> {
+    const snapshots = (await this.request('readonly', (store) => store.getAll())) as DraftSnapshot[];
+    return snapshots.sort((a, b) => b.savedAt - a.savedAt || b.id - a.id);
+  }
+
+  async latest(): Promise<DraftSnapshot | null> {
+    return (await this.list())[0] ?? null;
+  }
+
+  async markSaved(id: number): Promise<void> {
+    await this.update(id, { saved: true });
+  }
+
+  async markDismissed(id: number): Promise<void> {
+    await this.update(id, { dismissed: true });
+  }
+
+  private async update(id: number, changes: Partial<DraftSnapshot>): Promise<void> {
+    const snapshot = (await this.request('readonly', (store) => store.get(id))) as DraftSnapshot | undefined;
+    if (snapshot) await this.request('readwrite', (store) => store.put({ ...snapshot, ...changes }));
+  }
+
+  private async request(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<unknown> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+}
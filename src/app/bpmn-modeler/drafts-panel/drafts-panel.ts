@@ -0,0 +1,20 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import type { DraftSnapshot } from '../draft-store/draft-store.service';
+
+@Component({
+  selector: 'app-drafts-panel',
+  templateUrl: './drafts-panel.html',
+  styleUrls: ['./drafts-panel.css'],
+  standalone: true,
+  imports: [DatePipe]
+})
+export class DraftsPanelComponent {
+  /** A draft offered for recovery on startup. */
+  @Input() recovery: DraftSnapshot | null = null;
+  /** The version list, or null while it is hidden. */
+  @Input() snapshots: DraftSnapshot[] | null = null;
+  @Output() restore = new EventEmitter<DraftSnapshot>();
+  @Output() dismissRecovery = new EventEmitter<void>();
+  @Output() closed = new EventEmitter<void>();
+}
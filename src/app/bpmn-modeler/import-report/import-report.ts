@@ -0,0 +1,18 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+export interface ImportReport {
+  title: string;
+  error: string | null;
+  warnings: string[];
+}
+
+@Component({
+  selector: 'app-import-report',
+  templateUrl: './import-report.html',
+  styleUrls: ['./import-report.css'],
+  standalone: true
+})
+export class ImportReportComponent {
+  @Input() report!: ImportReport;
+  @Output() closed = new EventEmitter<void>();
+}
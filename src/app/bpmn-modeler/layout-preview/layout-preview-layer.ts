@@ -0,0 +1,73 @@
+import type { LayoutPreview } from '../layout';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PREVIEW_LAYER = 'layout-preview';
+
+interface PreviewCanvas {
+  getLayer: (name: string, index?: number) => SVGElement;
+}
+
+interface PreviewElementRegistry {
+  get: (id: string) => { x?: number; y?: number; width?: number; height?: number; type?: string } | undefined;
+}
+
+export class LayoutPreviewLayer {
+  private animationFrame: number | null = null;
+
+  constructor(
+    private canvas: PreviewCanvas,
+    private elementRegistry: PreviewElementRegistry
+  ) {}
+
+  show(preview: LayoutPreview, animate: boolean = true): void {
+    this.clear();
+    const layer = this.canvas.getLayer(PREVIEW_LAYER, 1000);
+    layer.classList.add('layout-preview-layer');
+
+    const edgeGroup = document.createElementNS(SVG_NS, 'g');
+    edgeGroup.classList.add('layout-preview-edges');
+    for (const edge of preview.edges) {
+      const polyline = document.createElementNS(SVG_NS, 'polyline');
+      polyline.setAttribute('points', edge.waypoints.map((p) => `${p.x},${p.y}`).join(' '));
+      edgeGroup.appendChild(polyline);
+    }
+
+    const ghosts: Array<{ group: SVGGElement; transform: string }> = [];
+    for (const pos of preview.nodePositions) {
+      const element = this.elementRegistry.get(pos.nodeId);
+      if (!element) continue;
+      const group = document.createElementNS(SVG_NS, 'g');
+      group.classList.add('layout-preview-ghost');
+      const rect = document.createElementNS(SVG_NS, 'rect');
+      rect.setAttribute('width', String(element.width ?? 0));
+      rect.setAttribute('height', String(element.height ?? 0));
+      rect.setAttribute('rx', element.type?.endsWith('Task') ? '10' : String((element.width ?? 0) / 2));
+      group.appendChild(rect);
+
+      const target = `translate(${pos.x}px, ${pos.y}px)`;
+      group.style.transform = animate ? `translate(${element.x ?? 0}px, ${element.y ?? 0}px)` : target;
+      layer.appendChild(group);
+      ghosts.push({ group, transform: target });
+    }
+    layer.insertBefore(edgeGroup, layer.firstChild);
+
+    if (!animate) return;
+    edgeGroup.classList.add('layout-preview-fade');
+    this.animationFrame = requestAnimationFrame(() => {
+      this.animationFrame = requestAnimationFrame(() => {
+        this.animationFrame = null;
+        for (const ghost of ghosts) ghost.group.style.transform = ghost.transform;
+        edgeGroup.classList.remove('layout-preview-fade');
+      });
+    });
+  }
+
+  clear(): void {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+    const layer = this.canvas.getLayer(PREVIEW_LAYER, 1000);
+    while (layer.firstChild) layer.removeChild(layer.firstChild);
+  }
+}
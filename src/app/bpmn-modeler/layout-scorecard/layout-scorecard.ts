@@ -0,0 +1,48 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import type { LayoutMetrics } from '../layout';
+
+export interface LayoutScorecard {
+  before: LayoutMetrics;
+  after: LayoutMetrics;
+}
+
+interface ScorecardRow {
+  label: string;
+  key: keyof LayoutMetrics;
+  /** Which way is an improvement; the aspect ratio is neither. */
+  better: 'lower' | 'higher' | null;
+  format: (value: number) => string;
+}
+
+const count = (value: number) => String(value);
+
+const ROWS: ScorecardRow[] = [
+  { label: 'Edge crossings', key: 'edgeCrossings', better: 'lower', format: count },
+  { label: 'Total edge length', key: 'totalEdgeLength', better: 'lower', format: count },
+  { label: 'Bends', key: 'bendCount', better: 'lower', format: count },
+  { label: 'Overlaps', key: 'overlapCount', better: 'lower', format: count },
+  { label: 'Backward flows', key: 'flowDirectionViolations', better: 'lower', format: count },
+  { label: 'Lane utilisation', key: 'laneUtilisation', better: 'higher', format: (v) => `${Math.round(v * 100)}%` },
+  { label: 'Aspect ratio', key: 'aspectRatio', better: null, format: (v) => v.toFixed(2) }
+];
+
+@Component({
+  selector: 'app-layout-scorecard',
+  templateUrl: './layout-scorecard.html',
+  styleUrls: ['./layout-scorecard.css'],
+  standalone: true
+})
+export class LayoutScorecardComponent {
+  @Input() scorecard!: LayoutScorecard;
+  @Output() closed = new EventEmitter<void>();
+
+  readonly rows = ROWS;
+
+  getTrend(row: ScorecardRow): 'better' | 'worse' | null {
+    const before = row.format(this.scorecard.before[row.key]);
+    const after = row.format(this.scorecard.after[row.key]);
+    if (!row.better || before === after) return null;
+    const lower = this.scorecard.after[row.key] < this.scorecard.before[row.key];
+    return lower === (row.better === 'lower') ? 'better' : 'worse';
+  }
+}
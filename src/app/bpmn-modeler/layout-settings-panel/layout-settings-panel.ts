@@ -0,0 +1,73 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import {
+  LAYOUT_PRESETS,
+  LAYOUT_SETTING_LIMITS,
+  pickLayoutSettings,
+  validateLayoutSetting,
+  type LayoutOrientation,
+  type LayoutPresetName,
+  type LayoutSettingKey,
+  type LayoutSettings
+} from '../layout';
+
+@Component({
+  selector: 'app-layout-settings-panel',
+  templateUrl: './layout-settings-panel.html',
+  styleUrls: ['./layout-settings-panel.css'],
+  standalone: true
+})
+export class LayoutSettingsPanelComponent {
+  @Output() changed = new EventEmitter<LayoutSettings>();
+
+  readonly limits = LAYOUT_SETTING_LIMITS;
+  readonly fields: Array<{ key: LayoutSettingKey; label: string }> = [
+    { key: 'colSpacing', label: 'Column spacing' },
+    { key: 'rowSpacing', label: 'Row spacing' },
+    { key: 'lanePadding', label: 'Lane padding' },
+    { key: 'startXOffset', label: 'Start offset' },
+    { key: 'collisionThreshold', label: 'Collision threshold' },
+    { key: 'parallelOffset', label: 'Parallel flow offset' }
+  ];
+  readonly orientations: Array<{ value: LayoutOrientation; label: string }> = [
+    { value: 'horizontal', label: 'Left to right' },
+    { value: 'vertical', label: 'Top to bottom' }
+  ];
+  readonly presets: Array<{ name: LayoutPresetName; label: string }> = [
+    { name: 'compact', label: 'Compact' },
+    { name: 'spacious', label: 'Spacious' },
+    { name: 'print', label: 'Print' }
+  ];
+
+  draft = {} as LayoutSettings;
+  errors: Partial<Record<LayoutSettingKey, string>> = {};
+
+  @Input() set settings(value: LayoutSettings) {
+    this.draft = pickLayoutSettings(value);
+    this.errors = {};
+  }
+
+  onInput(key: LayoutSettingKey, event: Event) {
+    const value = (event.target as HTMLInputElement).valueAsNumber;
+    const error = validateLayoutSetting(key, value);
+    if (error) {
+      this.errors = { ...this.errors, [key]: error };
+      return;
+    }
+    const errors = { ...this.errors };
+    delete errors[key];
+    this.errors = errors;
+    this.draft = { ...this.draft, [key]: value };
+    if (Object.keys(this.errors).length === 0) this.changed.emit(this.draft);
+  }
+
+  onOrientationChange(event: Event) {
+    const orientation = (event.target as HTMLSelectElement).value as LayoutOrientation;
+    this.draft = { ...this.draft, orientation };
+    if (Object.keys(this.errors).length === 0) this.changed.emit(this.draft);
+  }
+
+  applyPreset(name: LayoutPresetName) {
+    this.settings = { ...LAYOUT_PRESETS[name], orientation: this.draft.orientation };
+    this.changed.emit(this.draft);
+  }
+}
@@ -0,0 +1,22 @@
+declare module 'bpmn-moddle' {
+  export interface ModdleElement {
+    $type: string;
+    $parent?: ModdleElement;
+    id?: string;
+    $instanceOf: (type: string) => boolean;
+    get: (name: string) => unknown;
+    set: (name: string, value: unknown) => void;
+  }
+
+  export interface ParseResult {
+    rootElement: ModdleElement;
+    warnings: Array<{ message: string }>;
+  }
+
+  export default class BpmnModdle {
+    constructor(packages?: Record<string, unknown>);
+    fromXML(xml: string, typeName?: string): Promise<ParseResult>;
+    toXML(element: ModdleElement, options?: { format?: boolean }): Promise<{ xml: string }>;
+    create(type: string, attrs?: Record<string, unknown>): ModdleElement;
+  }
+}
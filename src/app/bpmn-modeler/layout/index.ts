@@ -1,21 +1,147 @@
-export { BpmnLayoutService, type BpmnLayoutContext, type BpmnElementLike, type BpmnConnectionLike } from './bpmn-layout.service';
-export { buildGraphFromElements, assignRanks } from './layout.graph';
-export { buildLaneData, computeRankWidths, computeLaneHeights, computeLayout } from './layout.geometry';
+export {
+  BpmnLayoutService,
+  type BpmnLayoutContext,
+  type BpmnElementLike,
+  type BpmnConnectionLike,
+  type LayoutPreview
+} from './bpmn-layout.service';
+export { BpmnLayoutEngine } from './layout.engine';
+export {
+  layoutBpmnXml,
+  checkBpmnXml,
+  ensureDiagramInterchange,
+  type HeadlessLayoutOptions,
+  type HeadlessLayoutResult,
+  type HeadlessCheckResult
+} from './layout.headless';
+export { createDiagramInterchange } from './layout.di';
+export {
+  LayoutCommands,
+  LayoutCommandsModule,
+  LAYOUT_COMMANDS,
+  type AutoLayoutCommandContext,
+  type ResolveCollisionsCommandContext,
+  type ResolveConflictCommandContext,
+  type RouteConnectionsCommandContext,
+  type ApplyLaneLayoutCommandContext,
+  type ScopedLayoutCommandContext,
+  type AddLaneCommandContext,
+  type MoveLaneCommandContext,
+  type SplitLaneCommandContext,
+  type MergeLanesCommandContext,
+  type InsertNodeCommandContext
+} from './layout.commands';
+export {
+  AddLaneHandler,
+  MoveLaneHandler,
+  SplitLaneHandler,
+  MergeLanesHandler,
+  InsertNodeHandler
+} from './layout.lanes';
+export { LaneDragReorder, LaneDragModule } from './layout.lane-drag';
+export { LayoutContextPadProvider, LayoutContextPadModule } from './layout.context-pad';
+export { LayoutPinMarkers, LayoutMarkersModule, PINNED_MARKER } from './layout.markers';
+export { LabelLockBehavior, LabelLockModule } from './layout.label-lock';
+export { LineDriftBehavior, LineDriftModule } from './layout.drift';
+export {
+  LaneInsert,
+  LaneInsertPaletteProvider,
+  LaneInsertContextPadProvider,
+  LaneInsertModule
+} from './layout.insert';
+export { findNextFreeSlot, type PlacedNode } from './layout.placement';
+export {
+  buildGraphFromElements,
+  addBoundaryEdges,
+  assignRanks,
+  findBackEdges,
+  type GraphElement
+} from './layout.graph';
+export { findGatewayBlocks, alignBlockRanks, alignBlockPositions, type GatewayBlock } from './layout.blocks';
+export {
+  buildLaneData,
+  computeRankWidths,
+  computeLaneHeights,
+  computeLayout,
+  toPoint,
+  toBounds
+} from './layout.geometry';
 export type { NodePosition, LaneResize } from './layout.geometry';
+export { orderNodesWithinRanks, countCrossings } from './layout.ordering';
+export {
+  layoutModdleDescriptor,
+  readLayoutConstraints,
+  applyOrderConstraints,
+  getStackGap,
+  getStackHeight,
+  isPinned,
+  isLabelLocked
+} from './layout.constraints';
+export {
+  LAYOUT_SETTING_KEYS,
+  LAYOUT_SETTING_LIMITS,
+  LAYOUT_PRESETS,
+  LAYOUT_ORIENTATIONS,
+  validateLayoutSetting,
+  toLayoutConstants,
+  pickLayoutSettings,
+  readLayoutSettings,
+  writeLayoutSettings,
+  type LayoutSettingKey,
+  type LayoutSettings,
+  type LayoutPreset,
+  type LayoutPresetName
+} from './layout.settings';
+export { computeScopedLayout, type LayoutScope, type FixedNode } from './layout.scope';
 export {
   getOrientation,
   checkSegmentCollision,
   extractSegments,
   detectCollisions,
+  detectCrossings,
+  detectEdgeShapeConflicts,
+  detectShapeOverlaps,
+  detectLabelEdgeConflicts,
+  findSegmentIntersection,
+  segmentIntersectsBounds,
+  checkBoundsOverlap,
+  getConflictElementIds,
+  getConflictFocusPoint,
   computeResolvedWaypoints
 } from './layout.collision';
-export { computeManhattanWaypoints } from './layout.waypoints';
+export { SegmentIndex } from './layout.spatial';
+export { computeEdgeLabelBounds, type LabelObstacles } from './layout.labels';
+export { computeLayoutMetrics, type LayoutMetrics, type MetricsInput } from './layout.metrics';
+export { computeManhattanWaypoints, computeLoopBackWaypoints } from './layout.waypoints';
+export {
+  routeOrthogonal,
+  computeRoutedWaypoints,
+  getAttachmentSide,
+  chooseDockingSides,
+  chooseFacingSides,
+  getDockingPoint
+} from './layout.routing';
 export {
   DEFAULT_LAYOUT_CONSTANTS,
+  LAYOUT_AXES,
   type LayoutConstants,
+  type LayoutOrientation,
+  type LayoutAxes,
   type LayoutNode,
+  type LayoutNodeConstraints,
+  type BackEdge,
   type LaneMeta,
+  type OrderingResult,
   type Point,
+  type Bounds,
+  type DockingSide,
   type Segment,
-  type CollisionConflict
+  type ShapeLike,
+  type LabelLike,
+  type CollisionConflict,
+  type EdgeEdgeConflict,
+  type EdgeCrossingConflict,
+  type EdgeShapeConflict,
+  type ShapeShapeConflict,
+  type LabelEdgeConflict
 } from './layout.types';
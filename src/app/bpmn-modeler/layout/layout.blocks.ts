@@ -0,0 +1,231 @@
+import type { BackEdge, LaneMeta, LayoutConstants, LayoutNode } from './layout.types';
+import { LAYOUT_AXES } from './layout.types';
+import type { NodePosition } from './layout.geometry';
+import { isPinned } from './layout.constraints';
+
+/**
+ * A split gateway and its matching join enclosing a single-entry single-exit region: every branch
+ * leaves the split, only reaches nodes of the region and ends in the join.
+ */
+export interface GatewayBlock {
+  splitId: string;
+  joinId: string;
+  /** The region's nodes per outgoing flow of the split; empty for a flow straight to the join. */
+  branches: string[][];
+}
+
+function isGateway(node: LayoutNode | undefined): boolean {
+  return ((node?.element as { type?: string } | undefined)?.type ?? '').endsWith('Gateway');
+}
+
+function blockSize(block: GatewayBlock): number {
+  return block.branches.reduce((sum, branch) => sum + branch.length, 0);
+}
+
+/** Split/join gateway pairs of the graph without its back edges; nested blocks are listed as well. */
+export function findGatewayBlocks(
+  nodeMap: Map<string, LayoutNode>,
+  adjacency: Map<string, string[]>,
+  backEdges: BackEdge[] = []
+): GatewayBlock[] {
+  const backEdgeKeys = new Set(backEdges.map((e) => `${e.sourceId}->${e.targetId}`));
+  const successors = new Map<string, string[]>();
+  const predecessors = new Map<string, string[]>();
+  nodeMap.forEach((_, id) => {
+    successors.set(id, []);
+    predecessors.set(id, []);
+  });
+  adjacency.forEach((targets, fromId) => {
+    for (const toId of targets) {
+      if (!nodeMap.has(fromId) || !nodeMap.has(toId) || backEdgeKeys.has(`${fromId}->${toId}`)) continue;
+      if (successors.get(fromId)!.includes(toId)) continue;
+      successors.get(fromId)!.push(toId);
+      predecessors.get(toId)!.push(fromId);
+    }
+  });
+
+  const reachCache = new Map<string, Set<string>>();
+  const reachableFrom = (startId: string): Set<string> => {
+    let reached = reachCache.get(startId);
+    if (reached) return reached;
+    reached = new Set([startId]);
+    const stack = [startId];
+    while (stack.length > 0) {
+      for (const next of successors.get(stack.pop()!) ?? []) {
+        if (reached.has(next)) continue;
+        reached.add(next);
+        stack.push(next);
+      }
+    }
+    reachCache.set(startId, reached);
+    return reached;
+  };
+
+  const blocks: GatewayBlock[] = [];
+  nodeMap.forEach((split, splitId) => {
+    const outgoing = successors.get(splitId)!;
+    if (!isGateway(split) || outgoing.length < 2) return;
+
+    // The join is the first node all branches lead to, i.e. the one the others are reached through
+    const reaches = outgoing.map(reachableFrom);
+    const common = [...reaches[0]].filter((id) => reaches.every((reach) => reach.has(id)));
+    const joinId = common.find((id) => common.every((other) => reachableFrom(id).has(other)));
+    if (!joinId || !isGateway(nodeMap.get(joinId))) return;
+
+    const afterJoin = reachableFrom(joinId);
+    const region = new Set(reaches.flatMap((reach) => [...reach]).filter((id) => !afterJoin.has(id)));
+    const isClosed =
+      [...region].every((id) => reachableFrom(id).has(joinId)) &&
+      [...region, joinId].every((id) => predecessors.get(id)!.every((p) => p === splitId || region.has(p)));
+    if (!isClosed) return;
+
+    const branches = outgoing.map((id) => (id === joinId ? [] : [...reachableFrom(id)].filter((n) => region.has(n))));
+    // Branches that merge before the join do not form separate branches
+    if (branches.reduce((sum, branch) => sum + branch.length, 0) !== region.size) return;
+    blocks.push({ splitId, joinId, branches });
+  });
+  return blocks;
+}
+
+/**
+ * Centres each branch between its split and join along the flow, so that shorter branches do not
+ * hug the split and leave a long flow into the join. Inner blocks go first and then move along with
+ * the branch they are part of. Branches with `sameRankAs` constraints keep their ranks.
+ */
+export function alignBlockRanks(nodeMap: Map<string, LayoutNode>, blocks: GatewayBlock[]): void {
+  const constrained = new Set<string>();
+  nodeMap.forEach((node) => {
+    if (!node.constraints?.sameRankAs) return;
+    constrained.add(node.id);
+    constrained.add(node.constraints.sameRankAs);
+  });
+
+  for (const block of [...blocks].sort((a, b) => blockSize(a) - blockSize(b))) {
+    const first = nodeMap.get(block.splitId)!.rank + 1;
+    const last = nodeMap.get(block.joinId)!.rank - 1;
+    for (const branch of block.branches) {
+      if (branch.length === 0 || branch.some((id) => constrained.has(id))) continue;
+      const nodes = branch.map((id) => nodeMap.get(id)!);
+      const start = Math.min(...nodes.map((n) => n.rank));
+      const end = Math.max(...nodes.map((n) => n.rank));
+      const shift = Math.floor((first + last - start - end) / 2);
+      if (shift > 0) nodes.forEach((n) => (n.rank += shift));
+    }
+  }
+}
+
+/**
+ * Lays each block out across the flow: every branch is straightened onto one line and the branches
+ * are stacked symmetrically around the split's centre line (a flow straight to the join, or else the
+ * middle branch, stays on it), with the join on that line too. Inner blocks are laid out first and
+ * then moved as a whole. An outermost block that would no longer fit in its lane, or would come too
+ * close to other nodes in it, keeps the stacked layout together with its inner blocks.
+ */
+export function alignBlockPositions(
+  blocks: GatewayBlock[],
+  nodeMap: Map<string, LayoutNode>,
+  laneData: Map<string, LaneMeta>,
+  nodePositions: NodePosition[],
+  constants: LayoutConstants,
+  rootElementId: string | null
+): void {
+  const { flow, cross, flowSize, crossSize } = LAYOUT_AXES[constants.orientation];
+  const positions = new Map(nodePositions.map((pos) => [pos.nodeId, pos]));
+  const blockBySplit = new Map(blocks.map((block) => [block.splitId, block]));
+  const nestedIds = new Set(blocks.flatMap((block) => block.branches.flat()));
+
+  for (const outer of blocks.filter((block) => !nestedIds.has(block.splitId))) {
+    const split = nodeMap.get(outer.splitId)!;
+    const meta = laneData.get(split.laneId);
+    const members = [...outer.branches.flat(), outer.joinId];
+    const memberNodes = members.map((id) => nodeMap.get(id)!);
+    const isMovable = (n: LayoutNode) =>
+      !isPinned(n) && !n.constraints?.above && n.laneId === split.laneId && positions.has(n.id);
+    if (!meta || !positions.has(split.id) || !memberNodes.every(isMovable)) continue;
+
+    const shifts = new Map<string, number>();
+    const startOf = (id: string) => positions.get(id)![cross] + (shifts.get(id) ?? 0);
+    const endOf = (id: string) => startOf(id) + nodeMap.get(id)![crossSize];
+    const centreOf = (id: string) => startOf(id) + nodeMap.get(id)![crossSize] / 2;
+    const shift = (ids: string[], by: number) => ids.forEach((id) => shifts.set(id, (shifts.get(id) ?? 0) + by));
+    const gap = Math.max(constants.rowSpacing, ...memberNodes.map((n) => n.constraints?.minSpacing ?? 0));
+
+    const arrange = (block: GatewayBlock): boolean => {
+      const centre = centreOf(block.splitId);
+      const bands: Array<{ branch: string[]; line: number; lo: number; hi: number }> = [];
+      for (const branch of block.branches) {
+        if (branch.length === 0) {
+          bands.push({ branch, line: centre, lo: 0, hi: 0 });
+          continue;
+        }
+        // Nodes of inner blocks follow their split; the remaining ones form a chain, one per rank
+        const nested = new Set(branch.flatMap((id) => blockBySplit.get(id)?.branches.flat() ?? []));
+        const chain = branch
+          .filter((id) => !nested.has(id))
+          .sort((a, b) => nodeMap.get(a)!.rank - nodeMap.get(b)!.rank);
+        if (new Set(chain.map((id) => nodeMap.get(id)!.rank)).size !== chain.length) return false;
+        const line = centreOf(chain[0]);
+        for (const id of chain) shift([id, ...(blockBySplit.get(id)?.branches.flat() ?? [])], line - centreOf(id));
+        bands.push({
+          branch,
+          line,
+          lo: Math.min(...branch.map(startOf)) - line,
+          hi: Math.max(...branch.map(endOf)) - line
+        });
+      }
+
+      bands.sort((a, b) => a.line - b.line);
+      const offsets = [0];
+      for (let i = 1; i < bands.length; i++) offsets.push(offsets[i - 1] + bands[i - 1].hi + gap - bands[i].lo);
+      const anchor = bands.findIndex((band) => band.branch.length === 0);
+      const last = bands.length - 1;
+      let base: number;
+      if (anchor >= 0) base = centre - offsets[anchor];
+      else if (bands.length % 2 === 1) base = centre - offsets[last / 2];
+      else base = centre - (bands[0].lo + offsets[last] + bands[last].hi) / 2;
+      bands.forEach((band, i) => shift(band.branch, base + offsets[i] - band.line));
+
+      const join = nodeMap.get(block.joinId)!;
+      if ((meta.nodesByRank.get(join.rank) ?? []).filter((n) => !isPinned(n)).length === 1) {
+        shift([join.id], centre - centreOf(join.id));
+      }
+      return true;
+    };
+
+    const inner = blocks.filter((block) => members.includes(block.splitId));
+    for (const block of inner.sort((a, b) => blockSize(a) - blockSize(b))) {
+      const before = new Map(shifts);
+      if (!arrange(block)) {
+        shifts.clear();
+        before.forEach((by, id) => shifts.set(id, by));
+      }
+    }
+    if (!arrange(outer)) continue;
+
+    const isRoot = (meta.element as { id?: string }).id === rootElementId;
+    if (!isRoot && members.some((id) => startOf(id) < meta.y || endOf(id) > meta.y + meta.height)) continue;
+    const others = nodePositions.filter(
+      (pos) => pos.laneId === split.laneId && pos.nodeId !== split.id && !members.includes(pos.nodeId)
+    );
+    const collides = members.some((id) => {
+      const flowStart = positions.get(id)![flow];
+      const flowEnd = flowStart + nodeMap.get(id)![flowSize];
+      return others.some((pos) => {
+        const other = nodeMap.get(pos.nodeId)!;
+        return (
+          flowStart < pos[flow] + other[flowSize] &&
+          flowEnd > pos[flow] &&
+          startOf(id) < pos[cross] + other[crossSize] + gap &&
+          endOf(id) + gap > pos[cross]
+        );
+      });
+    });
+    if (collides) continue;
+
+    shifts.forEach((by, id) => {
+      const pos = positions.get(id)!;
+      pos[cross] += by;
+      pos[cross === 'x' ? 'dx' : 'dy'] += by;
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { computeResolvedWaypoints, type ConnectionLike } from './layout.collision';
+import type { Bounds } from './layout.types';
+
+describe('computeResolvedWaypoints', () => {
+  // The vertical track of `flow` overlaps `other` and drifts to the right by default
+  const flow: ConnectionLike = {
+    id: 'flow',
+    source: 'a',
+    target: 'b',
+    waypoints: [
+      { x: 490, y: 120 },
+      { x: 605, y: 120 },
+      { x: 605, y: 470 },
+      { x: 620, y: 470 }
+    ]
+  };
+  const other: ConnectionLike = {
+    id: 'other',
+    source: 'c',
+    target: 'd',
+    waypoints: [
+      { x: 605, y: 300 },
+      { x: 605, y: 400 }
+    ]
+  };
+  const right: Bounds = { x: 610, y: 250, width: 100, height: 80 };
+  const left: Bounds = { x: 500, y: 250, width: 100, height: 80 };
+
+  it('drifts an overlapping track away from the other connection', () => {
+    const { waypoints, updated } = computeResolvedWaypoints(flow, [other]);
+    expect(updated).toBeTrue();
+    expect(waypoints[1].x).toBeGreaterThan(605);
+  });
+
+  it('drifts the other way when the track would enter an obstacle', () => {
+    const { waypoints, updated } = computeResolvedWaypoints(flow, [other], undefined, [right]);
+    expect(updated).toBeTrue();
+    expect(waypoints[1].x).toBeLessThan(605);
+  });
+
+  it('keeps the track when both sides are blocked', () => {
+    const { waypoints, updated } = computeResolvedWaypoints(flow, [other], undefined, [right, left]);
+    expect(updated).toBeFalse();
+    expect(waypoints).toEqual(flow.waypoints);
+  });
+});
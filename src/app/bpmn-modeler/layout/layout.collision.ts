@@ -1,5 +1,20 @@
-import type { Point, Segment, CollisionConflict, LayoutConstants } from './layout.types';
-import { DEFAULT_LAYOUT_CONSTANTS } from './layout.types';
+import type {
+  Point,
+  Segment,
+  Bounds,
+  ShapeLike,
+  LabelLike,
+  LayoutConstants,
+  LayoutOrientation,
+  EdgeEdgeConflict,
+  EdgeCrossingConflict,
+  EdgeShapeConflict,
+  ShapeShapeConflict,
+  LabelEdgeConflict,
+  CollisionConflict
+} from './layout.types';
+import { DEFAULT_LAYOUT_CONSTANTS, LAYOUT_AXES } from './layout.types';
+import { SegmentIndex } from './layout.spatial';
 
 export function getOrientation(p1: Point, p2: Point): 'horizontal' | 'vertical' | 'diagonal' {
   if (Math.abs(p1.x - p2.x) < 2) return 'vertical';
@@ -39,7 +54,73 @@ export function checkSegmentCollision(
     );
   }
 
-  return false;
+  const dx = seg1.p2.x - seg1.p1.x;
+  const dy = seg1.p2.y - seg1.p1.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return false;
+  const distance = (p: Point) => Math.abs((p.x - seg1.p1.x) * dy - (p.y - seg1.p1.y) * dx) / length;
+  if (distance(seg2.p1) > threshold || distance(seg2.p2) > threshold) return false;
+  const project = (p: Point) => ((p.x - seg1.p1.x) * dx + (p.y - seg1.p1.y) * dy) / length;
+  const q1 = project(seg2.p1);
+  const q2 = project(seg2.p2);
+  return checkIntervalOverlap(0, length, Math.min(q1, q2), Math.max(q1, q2));
+}
+
+export function findSegmentIntersection(seg1: Segment, seg2: Segment): Point | null {
+  const rx = seg1.p2.x - seg1.p1.x;
+  const ry = seg1.p2.y - seg1.p1.y;
+  const sx = seg2.p2.x - seg2.p1.x;
+  const sy = seg2.p2.y - seg2.p1.y;
+  const denominator = rx * sy - ry * sx;
+  if (Math.abs(denominator) < 1e-9) return null;
+  const qpx = seg2.p1.x - seg1.p1.x;
+  const qpy = seg2.p1.y - seg1.p1.y;
+  const t = (qpx * sy - qpy * sx) / denominator;
+  const u = (qpx * ry - qpy * rx) / denominator;
+  const epsilon = 1e-3;
+  if (t <= epsilon || t >= 1 - epsilon || u <= epsilon || u >= 1 - epsilon) return null;
+  return { x: seg1.p1.x + t * rx, y: seg1.p1.y + t * ry };
+}
+
+export function segmentIntersectsBounds(segment: Segment, bounds: Bounds, tolerance: number = 2): boolean {
+  const minX = bounds.x + tolerance;
+  const maxX = bounds.x + bounds.width - tolerance;
+  const minY = bounds.y + tolerance;
+  const maxY = bounds.y + bounds.height - tolerance;
+  if (minX >= maxX || minY >= maxY) return false;
+
+  const dx = segment.p2.x - segment.p1.x;
+  const dy = segment.p2.y - segment.p1.y;
+  let t0 = 0;
+  let t1 = 1;
+  const clip = (p: number, q: number): boolean => {
+    if (p === 0) return q > 0;
+    const r = q / p;
+    if (p < 0) {
+      if (r > t1) return false;
+      if (r > t0) t0 = r;
+    } else {
+      if (r < t0) return false;
+      if (r < t1) t1 = r;
+    }
+    return true;
+  };
+  return (
+    clip(-dx, segment.p1.x - minX) &&
+    clip(dx, maxX - segment.p1.x) &&
+    clip(-dy, segment.p1.y - minY) &&
+    clip(dy, maxY - segment.p1.y) &&
+    t0 < t1
+  );
+}
+
+export function checkBoundsOverlap(b1: Bounds, b2: Bounds, tolerance: number = 2): boolean {
+  return (
+    checkIntervalOverlap(b1.x, b1.x + b1.width, b2.x, b2.x + b2.width) &&
+    checkIntervalOverlap(b1.y, b1.y + b1.height, b2.y, b2.y + b2.height) &&
+    Math.min(b1.x + b1.width, b2.x + b2.width) - Math.max(b1.x, b2.x) > tolerance &&
+    Math.min(b1.y + b1.height, b2.y + b2.height) - Math.max(b1.y, b2.y) > tolerance
+  );
 }
 
 export function extractSegments(
@@ -58,18 +139,39 @@ export function extractSegments(
   return segments;
 }
 
+function buildSegmentIndex(allSegments: Segment[]): SegmentIndex {
+  const index = new SegmentIndex();
+  const segmentsByConnection = new Map<string, Segment[]>();
+  for (const segment of allSegments) {
+    if (!segmentsByConnection.has(segment.connectionId)) segmentsByConnection.set(segment.connectionId, []);
+    segmentsByConnection.get(segment.connectionId)!.push(segment);
+  }
+  segmentsByConnection.forEach((segments, connectionId) => index.insertConnection(connectionId, segments));
+  return index;
+}
+
+function getSegmentBounds(segment: Segment): Bounds {
+  const x = Math.min(segment.p1.x, segment.p2.x);
+  const y = Math.min(segment.p1.y, segment.p2.y);
+  return { x, y, width: Math.abs(segment.p2.x - segment.p1.x), height: Math.abs(segment.p2.y - segment.p1.y) };
+}
+
 export function detectCollisions(
   allSegments: Segment[],
   threshold: number = DEFAULT_LAYOUT_CONSTANTS.collisionThreshold
-): CollisionConflict[] {
-  const conflicts: CollisionConflict[] = [];
-  for (let i = 0; i < allSegments.length; i++) {
-    for (let j = i + 1; j < allSegments.length; j++) {
-      const seg1 = allSegments[i];
-      const seg2 = allSegments[j];
+): EdgeEdgeConflict[] {
+  const index = buildSegmentIndex(allSegments);
+  const order = new Map(allSegments.map((segment, i) => [segment, i]));
+  const diagonals = allSegments.filter((segment) => segment.orientation === 'diagonal');
+  const conflicts: EdgeEdgeConflict[] = [];
+  for (const seg1 of allSegments) {
+    const candidates = seg1.orientation === 'diagonal' ? diagonals : index.query(seg1, threshold);
+    for (const seg2 of candidates) {
       if (seg1.connectionId === seg2.connectionId) continue;
+      if (order.get(seg2)! <= order.get(seg1)!) continue;
       if (checkSegmentCollision(seg1, seg2, threshold)) {
         conflicts.push({
+          kind: 'edge-edge',
           connections: [seg1.connectionId, seg2.connectionId],
           reason: 'Overlap or near-collision detected',
           segment1: seg1,
@@ -81,6 +183,179 @@ export function detectCollisions(
   return conflicts;
 }
 
+export function detectCrossings(allSegments: Segment[]): EdgeCrossingConflict[] {
+  const index = buildSegmentIndex(allSegments);
+  const diagonals = allSegments.filter((segment) => segment.orientation === 'diagonal');
+  const order = new Map(allSegments.map((segment, i) => [segment, i]));
+  const conflicts: EdgeCrossingConflict[] = [];
+  for (const seg1 of allSegments) {
+    if (seg1.orientation === 'vertical') continue;
+    const bounds = getSegmentBounds(seg1);
+    const candidates =
+      seg1.orientation === 'horizontal'
+        ? index.queryBounds(bounds, 'vertical')
+        : [
+            ...index.queryBounds(bounds, 'horizontal'),
+            ...index.queryBounds(bounds, 'vertical'),
+            ...diagonals.filter((d) => order.get(d)! > order.get(seg1)!)
+          ];
+    for (const seg2 of candidates) {
+      if (seg1.connectionId === seg2.connectionId) continue;
+      const point = findSegmentIntersection(seg1, seg2);
+      if (!point) continue;
+      conflicts.push({
+        kind: 'crossing',
+        connections: [seg1.connectionId, seg2.connectionId],
+        reason: 'Edges cross each other',
+        segment1: seg1,
+        segment2: seg2,
+        point
+      });
+    }
+  }
+  return conflicts;
+}
+
+export function detectEdgeShapeConflicts(
+  allSegments: Segment[],
+  shapes: ShapeLike[],
+  connectionEndpoints: Map<string, string[]>
+): EdgeShapeConflict[] {
+  const findSegments = createBoundsQuery(allSegments);
+  const found: Array<{ segment: Segment; shape: ShapeLike }> = [];
+  for (const shape of shapes) {
+    for (const segment of findSegments(shape)) {
+      if ((connectionEndpoints.get(segment.connectionId) ?? []).includes(shape.id)) continue;
+      if (segmentIntersectsBounds(segment, shape)) found.push({ segment, shape });
+    }
+  }
+  return sortBySegment(getSegmentOrder(allSegments), found).map(({ segment, shape }) => ({
+    kind: 'edge-shape',
+    connectionId: segment.connectionId,
+    shapeId: shape.id,
+    reason: 'Edge passes through a shape',
+    segment,
+    shape: { x: shape.x, y: shape.y, width: shape.width, height: shape.height }
+  }));
+}
+
+/**
+ * Shapes are not kept in the segment grid; sorting them by their left edge and sweeping instead
+ * only compares shapes whose horizontal extents meet.
+ */
+export function detectShapeOverlaps(shapes: ShapeLike[]): ShapeShapeConflict[] {
+  const byLeft = shapes.map((shape, index) => ({ shape, index })).sort((a, b) => a.shape.x - b.shape.x);
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < byLeft.length; i++) {
+    const first = byLeft[i];
+    for (let j = i + 1; j < byLeft.length && byLeft[j].shape.x < first.shape.x + first.shape.width; j++) {
+      const second = byLeft[j];
+      pairs.push(first.index < second.index ? [first.index, second.index] : [second.index, first.index]);
+    }
+  }
+  pairs.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  const conflicts: ShapeShapeConflict[] = [];
+  for (const [i, j] of pairs) {
+    const s1 = shapes[i];
+    const s2 = shapes[j];
+    if (s1.hostId === s2.id || s2.hostId === s1.id) continue;
+    if (s1.parentId === s2.id || s2.parentId === s1.id) continue;
+    if (!checkBoundsOverlap(s1, s2)) continue;
+    conflicts.push({
+      kind: 'shape-shape',
+      shapes: [s1.id, s2.id],
+      reason: 'Shapes overlap',
+      bounds1: { x: s1.x, y: s1.y, width: s1.width, height: s1.height },
+      bounds2: { x: s2.x, y: s2.y, width: s2.width, height: s2.height }
+    });
+  }
+  return conflicts;
+}
+
+export function detectLabelEdgeConflicts(
+  allSegments: Segment[],
+  labels: LabelLike[]
+): LabelEdgeConflict[] {
+  const findSegments = createBoundsQuery(allSegments);
+  const order = getSegmentOrder(allSegments);
+  const conflicts: LabelEdgeConflict[] = [];
+  for (const label of labels) {
+    const found = findSegments(label).filter(
+      (segment) => segment.connectionId !== label.ownerId && segmentIntersectsBounds(segment, label, 0)
+    );
+    for (const { segment } of sortBySegment(order, found.map((segment) => ({ segment })))) {
+      conflicts.push({
+        kind: 'label-edge',
+        labelId: label.id,
+        connectionId: segment.connectionId,
+        reason: 'Label sits on an edge',
+        label: { x: label.x, y: label.y, width: label.width, height: label.height },
+        segment
+      });
+    }
+  }
+  return conflicts;
+}
+
+/** Segments that may pass through a box: those in the grid cells it touches, and every diagonal. */
+function createBoundsQuery(allSegments: Segment[]): (bounds: Bounds) => Segment[] {
+  const index = buildSegmentIndex(allSegments);
+  const diagonals = allSegments.filter((segment) => segment.orientation === 'diagonal');
+  return (bounds) => [
+    ...index.queryBounds(bounds, 'horizontal'),
+    ...index.queryBounds(bounds, 'vertical'),
+    ...diagonals
+  ];
+}
+
+function getSegmentOrder(allSegments: Segment[]): Map<Segment, number> {
+  return new Map(allSegments.map((segment, i) => [segment, i]));
+}
+
+/** Reports in the order of `allSegments`, as the pairwise loop over segments did. */
+function sortBySegment<T extends { segment: Segment }>(order: Map<Segment, number>, found: T[]): T[] {
+  return found.sort((a, b) => order.get(a.segment)! - order.get(b.segment)!);
+}
+
+export function getConflictElementIds(conflict: CollisionConflict): string[] {
+  switch (conflict.kind) {
+    case 'edge-edge':
+    case 'crossing':
+      return [...conflict.connections];
+    case 'edge-shape':
+      return [conflict.connectionId, conflict.shapeId];
+    case 'shape-shape':
+      return [...conflict.shapes];
+    case 'label-edge':
+      return [conflict.labelId, conflict.connectionId];
+  }
+}
+
+export function getConflictFocusPoint(conflict: CollisionConflict): Point {
+  const center = (b: Bounds): Point => ({ x: b.x + b.width / 2, y: b.y + b.height / 2 });
+  switch (conflict.kind) {
+    case 'edge-edge':
+      return center(getSegmentBounds(conflict.segment1));
+    case 'crossing':
+      return conflict.point;
+    case 'edge-shape':
+      return center(conflict.shape);
+    case 'shape-shape': {
+      const x = Math.max(conflict.bounds1.x, conflict.bounds2.x);
+      const y = Math.max(conflict.bounds1.y, conflict.bounds2.y);
+      return center({
+        x,
+        y,
+        width: Math.min(conflict.bounds1.x + conflict.bounds1.width, conflict.bounds2.x + conflict.bounds2.width) - x,
+        height: Math.min(conflict.bounds1.y + conflict.bounds1.height, conflict.bounds2.y + conflict.bounds2.height) - y
+      });
+    }
+    case 'label-edge':
+      return center(conflict.label);
+  }
+}
+
 export function applySegmentDrift(
   waypoints: Point[],
   segmentIndex: number,
@@ -101,10 +376,12 @@ export function applySegmentDrift(
 
 export function applyDriftToWaypoints(
   waypoints: Point[],
-  offset: number
+  offset: number,
+  orientation: LayoutOrientation = 'horizontal'
 ): void {
+  const { cross } = LAYOUT_AXES[orientation];
   for (let i = 2; i < waypoints.length - 1; i++) {
-    waypoints[i].y += offset;
+    waypoints[i][cross] += offset;
   }
 }
 
@@ -153,16 +430,26 @@ export function checkConnectionOverlapDetails(
   return null;
 }
 
+/**
+ * Drifts the connection's overlapping segments away from the other connections. A drift that would
+ * run the connection through more of the `obstacles` is tried the other way round, or else skipped.
+ */
 export function computeResolvedWaypoints(
   targetConnection: ConnectionLike,
   otherConnections: ConnectionLike[],
-  constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+  constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS,
+  obstacles: Bounds[] = []
 ): { waypoints: Point[]; updated: boolean } {
-  const waypoints = targetConnection.waypoints.map((w) => ({ x: w.x, y: w.y }));
+  let waypoints = targetConnection.waypoints.map((w) => ({ x: w.x, y: w.y }));
   if (waypoints.length < 2) return { waypoints, updated: false };
 
   const checkCollision = (s1: Segment, s2: Segment) =>
     checkSegmentCollision(s1, s2, constants.collisionThreshold);
+  const countHits = (points: Point[]) =>
+    extractSegments(targetConnection.id, points).reduce(
+      (hits, segment) => hits + obstacles.filter((o) => segmentIntersectsBounds(segment, o)).length,
+      0
+    );
   let updated = false;
 
   const parallelGroup = otherConnections.filter(
@@ -176,8 +463,12 @@ export function computeResolvedWaypoints(
     const n = allParallel.length;
     const offset = (index - (n - 1) / 2) * constants.parallelOffset;
     if (Math.abs(offset) > 1) {
-      applyDriftToWaypoints(waypoints, offset);
-      updated = true;
+      const drifted = waypoints.map((w) => ({ x: w.x, y: w.y }));
+      applyDriftToWaypoints(drifted, offset, constants.orientation);
+      if (countHits(drifted) <= countHits(waypoints)) {
+        waypoints = drifted;
+        updated = true;
+      }
     }
   }
 
@@ -194,13 +485,15 @@ export function computeResolvedWaypoints(
     );
     if (overlap) {
       const direction = overlap.isPositiveDirection ? 1 : -1;
-      applySegmentDrift(
-        waypoints,
-        overlap.segmentIndex,
-        constants.parallelOffset * direction,
-        overlap.orientation
-      );
-      updated = true;
+      const hits = countHits(waypoints);
+      for (const sign of [direction, -direction]) {
+        const drifted = waypoints.map((w) => ({ x: w.x, y: w.y }));
+        applySegmentDrift(drifted, overlap.segmentIndex, constants.parallelOffset * sign, overlap.orientation);
+        if (countHits(drifted) > hits) continue;
+        waypoints = drifted;
+        updated = true;
+        break;
+      }
     }
   }
 
@@ -0,0 +1,287 @@
+import type {
+  BpmnLayoutService,
+  BpmnLayoutContext,
+  BpmnConnectionLike
+} from './bpmn-layout.service';
+import type { LayoutConstants, OrderingResult, CollisionConflict } from './layout.types';
+import type { LayoutScope } from './layout.scope';
+import {
+  readLayoutSettings,
+  toLayoutConstants,
+  writeLayoutSettings,
+  type LayoutSettings,
+  type SettingsFactoryLike,
+  type SettingsModelingLike
+} from './layout.settings';
+import {
+  AddLaneHandler,
+  MoveLaneHandler,
+  SplitLaneHandler,
+  MergeLanesHandler,
+  InsertNodeHandler
+} from './layout.lanes';
+
+export const LAYOUT_COMMANDS = {
+  auto: 'layout.auto',
+  resolveCollisions: 'layout.resolveCollisions',
+  resolveConflict: 'layout.resolveConflict',
+  routeConnections: 'layout.routeConnections',
+  applyLane: 'layout.applyLane',
+  scope: 'layout.scope',
+  addLane: 'layout.addLane',
+  moveLane: 'layout.moveLane',
+  splitLane: 'layout.splitLane',
+  mergeLanes: 'layout.mergeLanes',
+  insertNode: 'layout.insertNode'
+} as const;
+
+export interface AutoLayoutCommandContext {
+  constants?: LayoutConstants;
+  /** Stored in the diagram before the layout runs, which then uses them. */
+  settings?: LayoutSettings;
+  result?: OrderingResult;
+}
+
+export interface ResolveCollisionsCommandContext {
+  constants?: LayoutConstants;
+  maxPasses?: number;
+  connectionIds?: string[];
+}
+
+export interface ResolveConflictCommandContext {
+  conflict: CollisionConflict;
+  constants?: LayoutConstants;
+  resolved?: boolean;
+}
+
+export interface RouteConnectionsCommandContext {
+  connections: BpmnConnectionLike[];
+  constants?: LayoutConstants;
+}
+
+export interface ApplyLaneLayoutCommandContext {
+  laneId: string;
+  constants?: LayoutConstants;
+}
+
+export interface ScopedLayoutCommandContext {
+  scope: LayoutScope;
+  constants?: LayoutConstants;
+}
+
+/** Adds a lane before or after `laneId`; a pool id adds the lane at the pool's start or end. */
+export interface AddLaneCommandContext {
+  laneId: string;
+  location: 'before' | 'after';
+  newLaneId?: string;
+}
+
+/** Moves the lane to `index` among its sibling lanes. */
+export interface MoveLaneCommandContext {
+  laneId: string;
+  index: number;
+}
+
+/**
+ * Splits the lane into `parts` equal lanes (default: two), or in two at `offset` across the flow;
+ * nodes go to the part their center falls in. `newLaneId` is the first of the new lanes.
+ */
+export interface SplitLaneCommandContext {
+  laneId: string;
+  offset?: number;
+  parts?: number;
+  newLaneId?: string;
+}
+
+/** Moves the nodes of `otherLaneId` into `laneId` and removes the other lane. */
+export interface MergeLanesCommandContext {
+  laneId: string;
+  otherLaneId: string;
+}
+
+/**
+ * Creates `shape` with its centre at `position` in the lane, pool or process `containerId`,
+ * connected from `sourceId` if given. A lane the shape does not fit into grows to hold it.
+ */
+export interface InsertNodeCommandContext {
+  shape: { type: string };
+  position: { x: number; y: number };
+  containerId: string;
+  sourceId?: string;
+}
+
+interface CommandStackLike {
+  register: (command: string, handler: CommandHandlerLike) => void;
+}
+
+interface CommandHandlerLike {
+  preExecute(context: unknown): void;
+}
+
+interface InjectorLike {
+  instantiate: <T>(type: new (...args: never[]) => T) => T;
+}
+
+interface EventBusLike {
+  on: (event: string | string[], priority: number, fn: () => void) => void;
+}
+
+/**
+ * Command handlers only run their work in `preExecute`: every nested modeling call is recorded
+ * under the parent command, so undo/redo reverts the whole layout run as one step.
+ */
+abstract class LayoutCommandHandler<C> {
+  static $inject = ['config.layoutService', 'elementRegistry', 'modeling', 'canvas'];
+
+  constructor(
+    protected layoutService: BpmnLayoutService,
+    private elementRegistry: BpmnLayoutContext['elementRegistry'],
+    protected modeling: BpmnLayoutContext['modeling'] & SettingsModelingLike,
+    protected canvas: BpmnLayoutContext['canvas']
+  ) {}
+
+  protected get layoutContext(): BpmnLayoutContext {
+    return { elementRegistry: this.elementRegistry, modeling: this.modeling, canvas: this.canvas };
+  }
+
+  /** Explicit constants win; otherwise the settings stored in the diagram apply. */
+  protected constantsFor(context: { constants?: LayoutConstants }): LayoutConstants {
+    return context.constants ?? toLayoutConstants(readLayoutSettings(this.canvas.getRootElement()));
+  }
+
+  abstract preExecute(context: C): void;
+}
+
+class AutoLayoutHandler extends LayoutCommandHandler<AutoLayoutCommandContext> {
+  static override $inject = [...LayoutCommandHandler.$inject, 'bpmnFactory'];
+
+  constructor(
+    layoutService: BpmnLayoutService,
+    elementRegistry: BpmnLayoutContext['elementRegistry'],
+    modeling: BpmnLayoutContext['modeling'] & SettingsModelingLike,
+    canvas: BpmnLayoutContext['canvas'],
+    private bpmnFactory: SettingsFactoryLike
+  ) {
+    super(layoutService, elementRegistry, modeling, canvas);
+  }
+
+  preExecute(context: AutoLayoutCommandContext): void {
+    if (context.settings) {
+      writeLayoutSettings(this.canvas.getRootElement(), context.settings, this.modeling, this.bpmnFactory);
+    }
+    context.result = this.layoutService.autoLayout(this.layoutContext, this.constantsFor(context));
+  }
+}
+
+class ResolveCollisionsHandler extends LayoutCommandHandler<ResolveCollisionsCommandContext> {
+  preExecute(context: ResolveCollisionsCommandContext): void {
+    this.layoutService.resolveEdgeCollisions(
+      this.layoutContext,
+      context.maxPasses ?? 5,
+      this.constantsFor(context),
+      context.connectionIds
+    );
+  }
+}
+
+class ResolveConflictHandler extends LayoutCommandHandler<ResolveConflictCommandContext> {
+  preExecute(context: ResolveConflictCommandContext): void {
+    context.resolved = this.layoutService.resolveConflict(
+      this.layoutContext,
+      context.conflict,
+      this.constantsFor(context)
+    );
+  }
+}
+
+class RouteConnectionsHandler extends LayoutCommandHandler<RouteConnectionsCommandContext> {
+  preExecute(context: RouteConnectionsCommandContext): void {
+    this.layoutService.routeConnections(
+      this.layoutContext,
+      context.connections,
+      this.constantsFor(context)
+    );
+  }
+}
+
+class ApplyLaneLayoutHandler extends LayoutCommandHandler<ApplyLaneLayoutCommandContext> {
+  preExecute(context: ApplyLaneLayoutCommandContext): void {
+    this.layoutService.applyLaneLayout(
+      this.layoutContext,
+      context.laneId,
+      this.constantsFor(context)
+    );
+  }
+}
+
+class ScopedLayoutHandler extends LayoutCommandHandler<ScopedLayoutCommandContext> {
+  preExecute(context: ScopedLayoutCommandContext): void {
+    this.layoutService.autoLayoutScope(
+      this.layoutContext,
+      context.scope,
+      this.constantsFor(context)
+    );
+  }
+}
+
+export class LayoutCommands {
+  static $inject = ['commandStack', 'eventBus', 'injector'];
+
+  private applying = false;
+
+  constructor(commandStack: CommandStackLike, eventBus: EventBusLike, injector: InjectorLike) {
+    const handlers: Array<[string, new (...args: never[]) => CommandHandlerLike]> = [
+      [LAYOUT_COMMANDS.auto, AutoLayoutHandler],
+      [LAYOUT_COMMANDS.resolveCollisions, ResolveCollisionsHandler],
+      [LAYOUT_COMMANDS.resolveConflict, ResolveConflictHandler],
+      [LAYOUT_COMMANDS.routeConnections, RouteConnectionsHandler],
+      [LAYOUT_COMMANDS.applyLane, ApplyLaneLayoutHandler],
+      [LAYOUT_COMMANDS.scope, ScopedLayoutHandler],
+      [LAYOUT_COMMANDS.addLane, AddLaneHandler],
+      [LAYOUT_COMMANDS.moveLane, MoveLaneHandler],
+      [LAYOUT_COMMANDS.splitLane, SplitLaneHandler],
+      [LAYOUT_COMMANDS.mergeLanes, MergeLanesHandler],
+      [LAYOUT_COMMANDS.insertNode, InsertNodeHandler]
+    ];
+    for (const [command, Handler] of handlers) {
+      commandStack.register(command, this.flagWhileApplying(injector.instantiate(Handler)));
+    }
+
+    // Undo and redo replay the recorded changes without the handlers
+    const phases = Object.values(LAYOUT_COMMANDS).flatMap((command) => [
+      `commandStack.${command}.execute`,
+      `commandStack.${command}.revert`
+    ]);
+    eventBus.on(phases, 2000, () => {
+      this.applying = true;
+    });
+    eventBus.on('commandStack.changed', 500, () => {
+      this.applying = false;
+    });
+  }
+
+  /** True while a layout command (or its undo/redo) is applying changes to the diagram. */
+  isApplyingLayout(): boolean {
+    return this.applying;
+  }
+
+  /** Raises the flag around the handler's work and lowers it again even when the handler throws. */
+  private flagWhileApplying(handler: CommandHandlerLike): CommandHandlerLike {
+    const preExecute = handler.preExecute.bind(handler);
+    handler.preExecute = (context) => {
+      const applying = this.applying;
+      this.applying = true;
+      try {
+        preExecute(context);
+      } finally {
+        this.applying = applying;
+      }
+    };
+    return handler;
+  }
+}
+
+export const LayoutCommandsModule = {
+  __init__: ['layoutCommands'],
+  layoutCommands: ['type', LayoutCommands]
+};
@@ -0,0 +1,96 @@
+import type { LayoutConstants, LayoutNode, LayoutNodeConstraints } from './layout.types';
+import { LAYOUT_AXES } from './layout.types';
+
+export const layoutModdleDescriptor = {
+  name: 'Layout',
+  prefix: 'layout',
+  uri: 'http://bpmn-demo.local/schema/layout',
+  xml: { tagAlias: 'lowerCase' },
+  associations: [],
+  types: [
+    {
+      name: 'LayoutConstraints',
+      extends: ['bpmn:FlowNode'],
+      properties: [
+        { name: 'pinned', isAttr: true, type: 'Boolean' },
+        { name: 'sameRankAs', isAttr: true, type: 'String' },
+        { name: 'above', isAttr: true, type: 'String' },
+        { name: 'minSpacing', isAttr: true, type: 'Integer' }
+      ]
+    },
+    {
+      name: 'LabelConstraints',
+      extends: ['bpmn:SequenceFlow'],
+      properties: [{ name: 'labelLocked', isAttr: true, type: 'Boolean' }]
+    },
+    {
+      name: 'Settings',
+      superClass: ['Element'],
+      properties: [
+        { name: 'colSpacing', isAttr: true, type: 'Integer' },
+        { name: 'rowSpacing', isAttr: true, type: 'Integer' },
+        { name: 'lanePadding', isAttr: true, type: 'Integer' },
+        { name: 'startXOffset', isAttr: true, type: 'Integer' },
+        { name: 'collisionThreshold', isAttr: true, type: 'Integer' },
+        { name: 'parallelOffset', isAttr: true, type: 'Integer' },
+        { name: 'orientation', isAttr: true, type: 'String' }
+      ]
+    }
+  ]
+};
+
+export function readLayoutConstraints(businessObject: unknown): LayoutNodeConstraints | undefined {
+  const bo = businessObject as { get?: (name: string) => unknown } | null | undefined;
+  if (!bo?.get) return undefined;
+  const constraints: LayoutNodeConstraints = {
+    pinned: bo.get('layout:pinned') === true || undefined,
+    sameRankAs: (bo.get('layout:sameRankAs') as string | undefined) || undefined,
+    above: (bo.get('layout:above') as string | undefined) || undefined,
+    minSpacing: (bo.get('layout:minSpacing') as number | undefined) ?? undefined
+  };
+  return Object.values(constraints).some((v) => v !== undefined) ? constraints : undefined;
+}
+
+/** Set on sequence flows whose label the user placed; automatic label placement leaves it alone. */
+export function isLabelLocked(businessObject: unknown): boolean {
+  const bo = businessObject as { get?: (name: string) => unknown } | null | undefined;
+  return bo?.get?.('layout:labelLocked') === true;
+}
+
+export function isPinned(node: LayoutNode): boolean {
+  return node.constraints?.pinned === true;
+}
+
+export function getStackGap(a: LayoutNode, b: LayoutNode, constants: LayoutConstants): number {
+  return Math.max(constants.rowSpacing, a.constraints?.minSpacing ?? 0, b.constraints?.minSpacing ?? 0);
+}
+
+export function getStackHeight(nodes: LayoutNode[], constants: LayoutConstants): number {
+  let height = 0;
+  const { crossSize } = LAYOUT_AXES[constants.orientation];
+  nodes.forEach((n, i) => {
+    height += n[crossSize];
+    if (i > 0) height += getStackGap(nodes[i - 1], n, constants);
+  });
+  return height;
+}
+
+/** Reorders a rank's stack so every node with an `above` constraint precedes its reference node. */
+export function applyOrderConstraints(siblings: LayoutNode[]): LayoutNode[] {
+  const ordered = [...siblings];
+  for (let pass = 0; pass < siblings.length; pass++) {
+    let moved = false;
+    for (const node of siblings) {
+      const aboveId = node.constraints?.above;
+      if (!aboveId) continue;
+      const nodeIndex = ordered.indexOf(node);
+      const refIndex = ordered.findIndex((n) => n.id === aboveId);
+      if (refIndex === -1 || nodeIndex < refIndex) continue;
+      ordered.splice(nodeIndex, 1);
+      ordered.splice(refIndex, 0, node);
+      moved = true;
+    }
+    if (!moved) break;
+  }
+  return ordered;
+}
@@ -0,0 +1,184 @@
+import {
+  LAYOUT_COMMANDS,
+  type ScopedLayoutCommandContext,
+  type AddLaneCommandContext,
+  type SplitLaneCommandContext,
+  type MergeLanesCommandContext
+} from './layout.commands';
+import { readLayoutConstraints, isLabelLocked } from './layout.constraints';
+
+interface ContextPadElement {
+  id: string;
+  type: string;
+  waypoints?: unknown[];
+  x?: number;
+  y?: number;
+  parent?: ContextPadElement;
+  children?: ContextPadElement[];
+  labels?: ContextPadElement[];
+  labelTarget?: ContextPadElement;
+  businessObject?: unknown;
+}
+
+interface ModelingLike {
+  updateProperties: (element: ContextPadElement, properties: Record<string, unknown>) => void;
+}
+
+interface ContextPadLike {
+  registerProvider: (priority: number, provider: LayoutContextPadProvider) => void;
+}
+
+interface CommandStackLike {
+  execute: (
+    command: string,
+    context: ScopedLayoutCommandContext | AddLaneCommandContext | SplitLaneCommandContext | MergeLanesCommandContext
+  ) => void;
+}
+
+type ContextPadEntries = Record<
+  string,
+  { group: string; className: string; title: string; action: { click: () => void } }
+>;
+
+const CONTAINER_TYPES = ['bpmn:Lane', 'bpmn:Participant'];
+
+export class LayoutContextPadProvider {
+  static $inject = ['contextPad', 'commandStack', 'modeling'];
+
+  constructor(
+    contextPad: ContextPadLike,
+    private commandStack: CommandStackLike,
+    private modeling: ModelingLike
+  ) {
+    contextPad.registerProvider(500, this);
+  }
+
+  getContextPadEntries(element: ContextPadElement): ContextPadEntries {
+    if (CONTAINER_TYPES.includes(element.type)) {
+      return {
+        ...this.createEntry('Auto-layout this lane', { containerId: element.id }),
+        ...this.createLaneEntries(element)
+      };
+    }
+    const flow = element.type === 'label' ? element.labelTarget : element;
+    if (flow?.type === 'bpmn:SequenceFlow' && (flow.labels ?? []).length > 0) return this.createLabelLockEntry(flow);
+    if (element.waypoints || element.type === 'label' || element.type === 'bpmn:Process') return {};
+    const pinned = readLayoutConstraints(element.businessObject)?.pinned === true;
+    return {
+      ...this.createEntry('Auto-layout this element', { elementIds: [element.id] }),
+      'layout-pin': {
+        group: 'edit',
+        className: pinned ? 'layout-unpin-entry' : 'layout-pin-entry',
+        title: pinned ? 'Unpin from auto layout' : 'Pin for auto layout',
+        action: {
+          click: () => this.modeling.updateProperties(element, { 'layout:pinned': pinned ? undefined : true })
+        }
+      }
+    };
+  }
+
+  getMultiElementContextPadEntries(elements: ContextPadElement[]): ContextPadEntries {
+    const nodes = elements.filter(
+      (el) => !el.waypoints && el.type !== 'label' && !CONTAINER_TYPES.includes(el.type)
+    );
+    if (nodes.length === 0) return {};
+    return this.createEntry('Auto-layout selection', { elementIds: nodes.map((el) => el.id) });
+  }
+
+  /**
+   * Replaces the bpmn-js add and divide actions with the lane commands, which keep every node inside
+   * its lane, and adds merging with the next (or, for the last lane, the previous) sibling lane.
+   */
+  private createLaneEntries(element: ContextPadElement): ContextPadEntries {
+    const entries: ContextPadEntries = {
+      'lane-insert-above': this.createLaneEntry('lane-insert-above', 'Add lane above', LAYOUT_COMMANDS.addLane, {
+        laneId: element.id,
+        location: 'before'
+      }),
+      'lane-insert-below': this.createLaneEntry('lane-insert-below', 'Add lane below', LAYOUT_COMMANDS.addLane, {
+        laneId: element.id,
+        location: 'after'
+      })
+    };
+    if (element.type !== 'bpmn:Lane' || hasChildLanes(element)) return entries;
+
+    entries['lane-divide-two'] = {
+      ...this.createLaneEntry('lane-divide-two', 'Split lane in two', LAYOUT_COMMANDS.splitLane, { laneId: element.id }),
+      group: 'lane-divide'
+    };
+    entries['lane-divide-three'] = {
+      ...this.createLaneEntry('lane-divide-three', 'Split lane in three', LAYOUT_COMMANDS.splitLane, {
+        laneId: element.id,
+        parts: 3
+      }),
+      group: 'lane-divide'
+    };
+    const siblings = (element.parent?.children ?? [])
+      .filter((child) => child.type === 'bpmn:Lane')
+      .sort((a, b) => (a.y ?? 0) - (b.y ?? 0) || (a.x ?? 0) - (b.x ?? 0));
+    const index = siblings.indexOf(element);
+    const other = siblings[index + 1] ?? siblings[index - 1];
+    if (other && !hasChildLanes(other)) {
+      entries['lane-merge'] = {
+        group: 'lane-divide',
+        className: 'layout-lane-merge-entry',
+        title: index < siblings.length - 1 ? 'Merge with next lane' : 'Merge with previous lane',
+        action: {
+          click: () =>
+            this.commandStack.execute(LAYOUT_COMMANDS.mergeLanes, { laneId: element.id, otherLaneId: other.id })
+        }
+      };
+    }
+    return entries;
+  }
+
+  private createLaneEntry(
+    name: string,
+    title: string,
+    command: string,
+    context: AddLaneCommandContext | SplitLaneCommandContext
+  ): ContextPadEntries[string] {
+    return {
+      group: name,
+      className: `bpmn-icon-${name}`,
+      title,
+      action: { click: () => this.commandStack.execute(command, context) }
+    };
+  }
+
+  private createLabelLockEntry(flow: ContextPadElement): ContextPadEntries {
+    const locked = isLabelLocked(flow.businessObject);
+    return {
+      'layout-label-lock': {
+        group: 'edit',
+        className: locked ? 'layout-label-unlock-entry' : 'layout-label-lock-entry',
+        title: locked ? 'Let auto layout place the label' : 'Keep the label where it is',
+        action: {
+          click: () => this.modeling.updateProperties(flow, { 'layout:labelLocked': locked ? undefined : true })
+        }
+      }
+    };
+  }
+
+  private createEntry(title: string, scope: ScopedLayoutCommandContext['scope']): ContextPadEntries {
+    return {
+      'layout-scope': {
+        group: 'edit',
+        className: 'layout-scope-entry',
+        title,
+        action: {
+          click: () => this.commandStack.execute(LAYOUT_COMMANDS.scope, { scope })
+        }
+      }
+    };
+  }
+}
+
+function hasChildLanes(element: ContextPadElement): boolean {
+  return (element.children ?? []).some((child) => child.type === 'bpmn:Lane');
+}
+
+export const LayoutContextPadModule = {
+  __init__: ['layoutContextPadProvider'],
+  layoutContextPadProvider: ['type', LayoutContextPadProvider]
+};
@@ -0,0 +1,192 @@
+import type { ModdleElement } from 'bpmn-moddle';
+import { toBounds, toPoint } from './layout.geometry';
+import { LAYOUT_AXES, type Bounds, type LayoutOrientation, type Point } from './layout.types';
+
+interface DiFactoryLike {
+  create: (type: string, attrs: Record<string, unknown>) => ModdleElement;
+}
+
+interface PlannedShape {
+  bo: ModdleElement;
+  bounds: Bounds;
+  attrs: Record<string, unknown>;
+}
+
+/** Pool and lane header size across the flow, as drawn by bpmn-js. */
+const HEADER_SIZE = 30;
+const POOL_FLOW_SIZE = 600;
+const POOL_CROSS_SIZE = 250;
+const LANE_CROSS_SIZE = 120;
+const CONTENT_INSET = 50;
+
+/**
+ * Creates a `bpmndi:BPMNDiagram` for a document that only has the semantic model: a shape for every
+ * pool, lane, flow node and text annotation and a straight edge for every flow and association.
+ * Shapes get their bpmn-js default size and are placed inside their pool, lane or subprocess; the
+ * arrangement itself is left to the layout engine. Subprocesses with content are expanded.
+ *
+ * Returns the diagram, or undefined when the document has no process or collaboration to show.
+ */
+export function createDiagramInterchange(
+  definitions: ModdleElement,
+  factory: DiFactoryLike,
+  orientation: LayoutOrientation = 'horizontal'
+): ModdleElement | undefined {
+  const rootElements = (definitions.get('rootElements') as ModdleElement[] | undefined) ?? [];
+  const root =
+    rootElements.find((el) => el.$instanceOf('bpmn:Collaboration')) ??
+    rootElements.find((el) => el.$instanceOf('bpmn:Process'));
+  if (!root) return undefined;
+
+  const { flow, crossSize } = LAYOUT_AXES[orientation];
+  const isHorizontal = orientation === 'horizontal';
+  const planned: PlannedShape[] = [];
+  const boundsByBo = new Map<ModdleElement, Bounds>();
+  const edgeOwners: ModdleElement[] = [];
+
+  const addShape = (bo: ModdleElement, bounds: Bounds, attrs: Record<string, unknown> = {}) => {
+    planned.push({ bo, bounds, attrs });
+    boundsByBo.set(bo, bounds);
+  };
+
+  /** Stacks the lanes across the flow and returns their total cross size. */
+  const addLanes = (laneSets: ModdleElement[], flowPos: number, crossPos: number, extent: number): number => {
+    let offset = crossPos;
+    for (const lane of laneSets.flatMap((set) => getList(set, 'lanes'))) {
+      const bounds = toBounds(flow, flowPos, offset, extent, LANE_CROSS_SIZE);
+      addShape(lane, bounds, { isHorizontal });
+      const childLaneSet = lane.get('childLaneSet') as ModdleElement | undefined;
+      if (childLaneSet) {
+        const childSize = addLanes([childLaneSet], flowPos + HEADER_SIZE, offset, extent - HEADER_SIZE);
+        bounds[crossSize] = Math.max(bounds[crossSize], childSize);
+      }
+      offset += bounds[crossSize];
+    }
+    return offset - crossPos;
+  };
+
+  const addContent = (container: ModdleElement, origin: Point) => {
+    const elements = [...getList(container, 'flowElements'), ...getList(container, 'artifacts')];
+    const shapeElements = elements.filter(isShapeElement);
+
+    for (const bo of shapeElements.filter((el) => !el.$instanceOf('bpmn:BoundaryEvent'))) {
+      const isSubProcess = bo.$instanceOf('bpmn:SubProcess');
+      const expanded = isSubProcess && getList(bo, 'flowElements').length > 0;
+      addShape(bo, { ...origin, ...getDefaultSize(bo, expanded) }, isSubProcess ? { isExpanded: expanded } : {});
+      if (expanded) addContent(bo, { x: origin.x + CONTENT_INSET, y: origin.y + CONTENT_INSET });
+    }
+
+    const attachedCount = new Map<ModdleElement, number>();
+    for (const bo of shapeElements.filter((el) => el.$instanceOf('bpmn:BoundaryEvent'))) {
+      const hostBo = bo.get('attachedToRef') as ModdleElement | undefined;
+      const host = hostBo && boundsByBo.get(hostBo);
+      if (!hostBo || !host) continue;
+      const index = attachedCount.get(hostBo) ?? 0;
+      attachedCount.set(hostBo, index + 1);
+      const size = getDefaultSize(bo, false);
+      addShape(bo, {
+        x: host.x + host.width / 2 - size.width / 2 + index * size.width,
+        y: host.y + host.height - size.height / 2,
+        ...size
+      });
+    }
+
+    edgeOwners.push(...elements);
+  };
+
+  if (root.$instanceOf('bpmn:Collaboration')) {
+    let offset = 0;
+    for (const participant of getList(root, 'participants')) {
+      const process = participant.get('processRef') as ModdleElement | undefined;
+      const bounds = toBounds(flow, 0, offset, POOL_FLOW_SIZE, POOL_CROSS_SIZE);
+      addShape(participant, bounds, { isHorizontal });
+      if (process) {
+        const lanesSize = addLanes(getList(process, 'laneSets'), HEADER_SIZE, offset, POOL_FLOW_SIZE - HEADER_SIZE);
+        bounds[crossSize] = Math.max(bounds[crossSize], lanesSize);
+        addContent(process, toPoint(flow, HEADER_SIZE + CONTENT_INSET, offset + CONTENT_INSET));
+      }
+      offset += bounds[crossSize] + CONTENT_INSET;
+    }
+    for (const artifact of getList(root, 'artifacts').filter(isShapeElement)) {
+      addShape(artifact, { ...toPoint(flow, 0, offset), ...getDefaultSize(artifact, false) });
+    }
+    edgeOwners.push(...getList(root, 'messageFlows'), ...getList(root, 'artifacts'));
+  } else {
+    addLanes(getList(root, 'laneSets'), 0, 0, POOL_FLOW_SIZE);
+    addContent(root, toPoint(flow, CONTENT_INSET, CONTENT_INSET));
+  }
+
+  const edges: ModdleElement[] = [];
+  const addEdge = (bo: ModdleElement, sourceRef: unknown, targetRef: unknown) => {
+    const source = boundsByBo.get(firstRef(sourceRef) as ModdleElement);
+    const target = boundsByBo.get(firstRef(targetRef) as ModdleElement);
+    if (!source || !target) return;
+    const waypoint = [getCenter(source), getCenter(target)].map((p) => factory.create('dc:Point', { ...p }));
+    edges.push(factory.create('bpmndi:BPMNEdge', { id: `${bo.id}_di`, bpmnElement: bo, waypoint }));
+  };
+
+  for (const bo of edgeOwners) {
+    if (bo.$instanceOf('bpmn:SequenceFlow') || bo.$instanceOf('bpmn:MessageFlow') || bo.$instanceOf('bpmn:Association')) {
+      addEdge(bo, bo.get('sourceRef'), bo.get('targetRef'));
+    }
+    if (!bo.$instanceOf('bpmn:Activity')) continue;
+    for (const association of getList(bo, 'dataInputAssociations')) {
+      addEdge(association, association.get('sourceRef'), bo);
+    }
+    for (const association of getList(bo, 'dataOutputAssociations')) {
+      addEdge(association, bo, association.get('targetRef'));
+    }
+  }
+
+  const shapes = planned.map(({ bo, bounds, attrs }) =>
+    factory.create('bpmndi:BPMNShape', {
+      id: `${bo.id}_di`,
+      bpmnElement: bo,
+      bounds: factory.create('dc:Bounds', { ...bounds }),
+      ...attrs
+    })
+  );
+  const plane = factory.create('bpmndi:BPMNPlane', {
+    id: 'BPMNPlane_1',
+    bpmnElement: root,
+    planeElement: [...shapes, ...edges]
+  });
+  const diagram = factory.create('bpmndi:BPMNDiagram', { id: 'BPMNDiagram_1', plane });
+  definitions.set('diagrams', [...getList(definitions, 'diagrams'), diagram]);
+  return diagram;
+}
+
+/** Flow nodes and text annotations; data objects, flows and groups have no shape of their own. */
+function isShapeElement(bo: ModdleElement): boolean {
+  return (
+    bo.$instanceOf('bpmn:FlowNode') ||
+    bo.$instanceOf('bpmn:DataObjectReference') ||
+    bo.$instanceOf('bpmn:DataStoreReference') ||
+    bo.$instanceOf('bpmn:TextAnnotation')
+  );
+}
+
+/** The sizes bpmn-js gives new shapes. */
+function getDefaultSize(bo: ModdleElement, expanded: boolean): { width: number; height: number } {
+  if (expanded) return { width: 350, height: 200 };
+  if (bo.$instanceOf('bpmn:Activity')) return { width: 100, height: 80 };
+  if (bo.$instanceOf('bpmn:Gateway')) return { width: 50, height: 50 };
+  if (bo.$instanceOf('bpmn:Event')) return { width: 36, height: 36 };
+  if (bo.$instanceOf('bpmn:DataObjectReference')) return { width: 36, height: 50 };
+  if (bo.$instanceOf('bpmn:DataStoreReference')) return { width: 50, height: 50 };
+  if (bo.$instanceOf('bpmn:TextAnnotation')) return { width: 100, height: 30 };
+  return { width: 100, height: 80 };
+}
+
+function getList(element: ModdleElement, name: string): ModdleElement[] {
+  return (element.get(name) as ModdleElement[] | undefined) ?? [];
+}
+
+/** Data input associations reference their sources as a list. */
+function firstRef(ref: unknown): unknown {
+  return Array.isArray(ref) ? ref[0] : ref;
+}
+
+function getCenter(bounds: Bounds): Point {
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
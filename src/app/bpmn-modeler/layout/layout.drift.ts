@@ -0,0 +1,78 @@
+import type { BpmnLayoutService, BpmnLayoutContext, BpmnConnectionLike } from './bpmn-layout.service';
+import type { LayoutCommands } from './layout.commands';
+import { readLayoutSettings, toLayoutConstants } from './layout.settings';
+
+interface DriftElement {
+  id: string;
+  incoming?: BpmnConnectionLike[];
+  outgoing?: BpmnConnectionLike[];
+}
+
+interface DriftCommandContext {
+  shapes?: DriftElement[];
+  shape?: DriftElement;
+  connection?: BpmnConnectionLike;
+}
+
+interface EventBusLike {
+  on: (event: string | string[], fn: (event: { context: DriftCommandContext }) => void) => void;
+}
+
+/** Edits after which the flows they touched drift apart from flows they now overlap. */
+const DRIFT_COMMANDS = ['shape.resize', 'connection.create', 'connection.reconnect', 'connection.updateWaypoints'];
+
+/**
+ * Keeps user edits free of overlapping flows: moved shapes get their flows re-routed around
+ * obstacles, and flows that now overlap others drift apart. The changes are made within the user's
+ * command, so one undo reverts the edit together with them. Layout commands take care of their
+ * own flows.
+ */
+export class LineDriftBehavior {
+  static $inject = ['config.layoutService', 'eventBus', 'layoutCommands', 'elementRegistry', 'modeling', 'canvas'];
+
+  private drifting = false;
+
+  constructor(
+    private layoutService: BpmnLayoutService,
+    eventBus: EventBusLike,
+    private layoutCommands: LayoutCommands,
+    private elementRegistry: BpmnLayoutContext['elementRegistry'],
+    private modeling: BpmnLayoutContext['modeling'],
+    private canvas: BpmnLayoutContext['canvas']
+  ) {
+    eventBus.on('commandStack.elements.move.postExecuted', ({ context }) => {
+      this.drift(connectionsOf(context.shapes ?? []), true);
+    });
+
+    eventBus.on(
+      DRIFT_COMMANDS.map((command) => `commandStack.${command}.postExecuted`),
+      ({ context }) => {
+        if (context.connection) this.drift([context.connection], false);
+        else if (context.shape) this.drift(connectionsOf([context.shape]), false);
+      }
+    );
+  }
+
+  private drift(affected: BpmnConnectionLike[], reroute: boolean): void {
+    const connections = Array.from(new Set(affected));
+    if (connections.length === 0 || this.drifting || this.layoutCommands.isApplyingLayout()) return;
+    const context = { elementRegistry: this.elementRegistry, modeling: this.modeling, canvas: this.canvas };
+    const constants = toLayoutConstants(readLayoutSettings(this.canvas.getRootElement()));
+    this.drifting = true;
+    try {
+      if (reroute) this.layoutService.routeConnections(context, connections, constants);
+      this.layoutService.resolveEdgeCollisions(context, 5, constants, connections.map((c) => c.id));
+    } finally {
+      this.drifting = false;
+    }
+  }
+}
+
+function connectionsOf(shapes: DriftElement[]): BpmnConnectionLike[] {
+  return shapes.flatMap((shape) => [...(shape.incoming ?? []), ...(shape.outgoing ?? [])]);
+}
+
+export const LineDriftModule = {
+  __init__: ['lineDriftBehavior'],
+  lineDriftBehavior: ['type', LineDriftBehavior]
+};
@@ -0,0 +1,1194 @@
+import { buildGraphFromElements, addBoundaryEdges, assignRanks } from './layout.graph';
+import {
+  buildLaneData,
+  computeRankWidths,
+  computeLaneHeights,
+  computeLayout,
+  toPoint,
+  toBounds,
+  type NodePosition,
+  type LaneResize
+} from './layout.geometry';
+import { orderNodesWithinRanks } from './layout.ordering';
+import { alignBlockPositions, findGatewayBlocks } from './layout.blocks';
+import { computeScopedLayout, type LayoutScope } from './layout.scope';
+import { readLayoutConstraints, isLabelLocked } from './layout.constraints';
+import { computeEdgeLabelBounds } from './layout.labels';
+import { computeLayoutMetrics, type LayoutMetrics } from './layout.metrics';
+import {
+  extractSegments,
+  detectCollisions,
+  detectCrossings,
+  detectEdgeShapeConflicts,
+  detectShapeOverlaps,
+  detectLabelEdgeConflicts,
+  computeResolvedWaypoints,
+  segmentIntersectsBounds
+} from './layout.collision';
+import { SegmentIndex } from './layout.spatial';
+import type { Segment, Point, DockingSide } from './layout.types';
+import { computeLoopBackWaypoints } from './layout.waypoints';
+import { computeRoutedWaypoints, chooseFacingSides, getAttachmentSide } from './layout.routing';
+import {
+  DEFAULT_LAYOUT_CONSTANTS,
+  type LayoutConstants,
+  type CollisionConflict,
+  type BackEdge,
+  type OrderingResult,
+  type Bounds,
+  type ShapeLike,
+  type LabelLike,
+  type LayoutNode,
+  type LaneMeta,
+  LAYOUT_AXES
+} from './layout.types';
+
+export interface BpmnLayoutContext {
+  elementRegistry: {
+    filter: (predicate: (element: BpmnElementLike) => boolean) => BpmnElementLike[];
+  };
+  modeling: {
+    moveElements: (elements: unknown[], delta: { x: number; y: number }, target?: unknown) => void;
+    resizeShape: (shape: unknown, bounds: { x: number; y: number; width: number; height: number }) => void;
+    moveShape: (shape: unknown, delta: { x: number; y: number }) => void;
+    updateWaypoints: (connection: BpmnConnectionLike, waypoints: Array<{ x: number; y: number }>) => void;
+  };
+  canvas: {
+    getRootElement: () => { id: string; businessObject?: unknown };
+  };
+}
+
+export interface BpmnElementLike {
+  id: string;
+  type: string;
+  parent?: { id: string };
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  outgoing?: Array<{ target: { id: string } }>;
+  host?: BpmnElementLike;
+  attachers?: BpmnElementLike[];
+  hidden?: boolean;
+  businessObject?: unknown;
+}
+
+export interface BpmnConnectionLike {
+  id: string;
+  type?: string;
+  waypoints: Array<{ x: number; y: number }>;
+  source: unknown;
+  target: unknown;
+}
+
+type EdgeLabelLike = BpmnElementLike & { labelTarget?: BpmnConnectionLike & BpmnElementLike };
+
+export interface LayoutPreview {
+  nodePositions: NodePosition[];
+  laneResizes: LaneResize[];
+  edges: Array<{ connectionId: string; waypoints: Point[] }>;
+  ordering: OrderingResult;
+}
+
+interface PoolPlacement extends Bounds {
+  element: BpmnElementLike;
+}
+
+interface LayoutPlan {
+  pools: PoolPlacement[];
+  lanes: BpmnElementLike[];
+  elements: BpmnElementLike[];
+  nodeMap: Map<string, LayoutNode>;
+  laneData: Map<string, LaneMeta>;
+  backEdges: BackEdge[];
+  ordering: OrderingResult;
+  nodePositions: NodePosition[];
+  laneResizes: LaneResize[];
+}
+
+const LANE_CONTAINER_TYPES = ['bpmn:Lane', 'bpmn:Participant', 'bpmn:Process'];
+const SUBPROCESS_TYPES = ['bpmn:SubProcess', 'bpmn:Transaction', 'bpmn:AdHocSubProcess'];
+const ASSOCIATION_TYPES = ['bpmn:Association', 'bpmn:DataInputAssociation', 'bpmn:DataOutputAssociation'];
+const ROUTED_CONNECTION_TYPES = ['bpmn:SequenceFlow', 'bpmn:MessageFlow', ...ASSOCIATION_TYPES];
+
+/**
+ * The layout pipeline (ranking, lane geometry, routing and collision handling) applied through a
+ * bpmn-js-like element registry and modeling API. Framework-free: the Angular service extends it and
+ * the headless entry point drives it with an in-memory model built from BPMN XML.
+ */
+export class BpmnLayoutEngine {
+  autoLayout(
+    context: BpmnLayoutContext,
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+  ): OrderingResult {
+    const flowElements = this.getFlowElements(context.elementRegistry);
+    for (const subProcess of this.getExpandedSubProcesses(flowElements)) {
+      this.layoutContainer(context, subProcess, flowElements, constants);
+    }
+
+    const plan = this.planLayout(context, constants);
+    if (!plan) return { crossingsBefore: 0, crossingsAfter: 0 };
+
+    for (const pool of plan.pools) {
+      const dx = pool.x - (pool.element.x ?? 0);
+      const dy = pool.y - (pool.element.y ?? 0);
+      if (dx !== 0 || dy !== 0) context.modeling.moveElements([pool.element], { x: dx, y: dy });
+    }
+
+    const { flow, cross, flowSize, crossSize } = LAYOUT_AXES[constants.orientation];
+    // Lanes outside a pool reach at least past the last laid-out node
+    const laidOutEnd = Math.max(
+      ...plan.nodePositions.map((pos) => pos[flow] + plan.nodeMap.get(pos.nodeId)![flowSize] + constants.lanePadding)
+    );
+    for (const resize of plan.laneResizes) {
+      if (resize.isRoot) continue;
+      const el = resize.element as BpmnElementLike;
+      const pool = plan.pools.find((p) => p.element === el || this.isInside(el, p.element.id));
+      const extent = pool
+        ? pool[flow] + pool[flowSize] - (el[flow] ?? 0)
+        : Math.max(el[flowSize] ?? 0, laidOutEnd - (el[flow] ?? 0));
+      if (resize.height !== el[crossSize] || extent !== el[flowSize]) {
+        context.modeling.resizeShape(el, toBounds(flow, el[flow] ?? 0, resize.y, extent, resize.height));
+      } else if (resize.y !== el[cross]) {
+        context.modeling.moveElements([el], toPoint(flow, 0, resize.y - (el[cross] ?? 0)));
+      }
+    }
+    this.resizeParentLanes(context, constants);
+
+    for (const pool of plan.pools) {
+      const el = pool.element;
+      if (el.x === pool.x && el.y === pool.y && el.width === pool.width && el.height === pool.height) continue;
+      context.modeling.resizeShape(el, { x: pool.x, y: pool.y, width: pool.width, height: pool.height });
+    }
+
+    this.applyNodePositions(context, plan, plan.nodePositions);
+    this.rerouteConnections(context, plan.elements, plan.backEdges, constants);
+
+    const laidOut = new Set(plan.elements);
+    const messageFlows = context.elementRegistry.filter(
+      (e: BpmnElementLike) => e.type === 'bpmn:MessageFlow' && !laidOut.has((e as unknown as BpmnConnectionLike).source as BpmnElementLike)
+    ) as unknown as BpmnConnectionLike[];
+    this.routeConnections(context, messageFlows, constants);
+    // Separates the tracks routing could not keep apart, e.g. gateway branches leaving the same side
+    this.resolveEdgeCollisions(context, 5, constants);
+    this.placeEdgeLabels(context);
+    return plan.ordering;
+  }
+
+  previewLayout(
+    context: BpmnLayoutContext,
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+  ): LayoutPreview | null {
+    const plan = this.planLayout(context, constants);
+    if (!plan) return null;
+
+    const plannedBounds = new Map<string, Bounds>();
+    for (const pos of plan.nodePositions) {
+      const el = plan.nodeMap.get(pos.nodeId)!.element as BpmnElementLike;
+      plannedBounds.set(pos.nodeId, { x: pos.x, y: pos.y, width: el.width ?? 0, height: el.height ?? 0 });
+    }
+    for (const el of plan.elements) {
+      const host = el.host;
+      const hostBounds = host && plannedBounds.get(host.id);
+      if (!host || !hostBounds) continue;
+      plannedBounds.set(el.id, {
+        ...this.getBounds(el),
+        x: (el.x ?? 0) + hostBounds.x - (host.x ?? 0),
+        y: (el.y ?? 0) + hostBounds.y - (host.y ?? 0)
+      });
+    }
+    const routes = this.computeConnectionRoutes(
+      plan.elements,
+      plan.backEdges,
+      constants,
+      (el) => plannedBounds.get(el.id) ?? this.getBounds(el)
+    );
+
+    return {
+      nodePositions: plan.nodePositions,
+      laneResizes: plan.laneResizes,
+      edges: Array.from(routes, ([conn, waypoints]) => ({ connectionId: conn.id, waypoints })),
+      ordering: plan.ordering
+    };
+  }
+
+  applyLaneLayout(
+    context: BpmnLayoutContext,
+    laneId: string,
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+  ): void {
+    const plan = this.planLayout(context, constants);
+    const meta = plan?.laneData.get(laneId);
+    if (!plan || !meta) return;
+
+    const { flow, cross, crossSize } = LAYOUT_AXES[constants.orientation];
+    const lane = meta.element as BpmnElementLike;
+    const shift = toPoint(flow, 0, (lane[cross] ?? 0) + (lane[crossSize] ?? 0) / 2 - (meta.y + meta.height / 2));
+    const lanePositions = plan.nodePositions
+      .filter((pos) => pos.laneId === laneId)
+      .map((pos) => ({ ...pos, x: pos.x + shift.x, y: pos.y + shift.y, dx: pos.dx + shift.x, dy: pos.dy + shift.y }));
+    this.applyNodePositions(context, plan, lanePositions);
+
+    const laneElements = plan.elements.filter((el) => {
+      const nodeId = el.host?.id ?? el.id;
+      return plan.nodeMap.get(nodeId)?.laneId === laneId;
+    });
+    const rerouted = this.rerouteConnections(context, laneElements, plan.backEdges, constants);
+    this.placeEdgeLabels(context, rerouted.map((conn) => conn.id));
+  }
+
+  autoLayoutScope(
+    context: BpmnLayoutContext,
+    scope: LayoutScope,
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+  ): void {
+    const lanes = this.getLanes(context.elementRegistry);
+    const flowElements = this.getFlowElements(context.elementRegistry);
+    const layoutNodes = this.getLayoutNodes(flowElements);
+    const scopeIds = new Set(scope.elementIds ?? []);
+    const inScope = (el: BpmnElementLike) =>
+      !readLayoutConstraints(el.businessObject)?.pinned &&
+      (scopeIds.has(el.id) || (scope.containerId != null && this.isInside(el, scope.containerId)));
+    const elements = layoutNodes.filter(inScope);
+    if (lanes.length === 0 || elements.length === 0) return;
+
+    const { nodeMap, adjacency, inDegree } = buildGraphFromElements(
+      elements as Parameters<typeof buildGraphFromElements>[0],
+      (el) => this.resolveLaneId(el as unknown as BpmnElementLike, lanes)
+    );
+    const allElements = [
+      ...layoutNodes,
+      ...this.getBoundaryEvents(flowElements, new Set(layoutNodes.map((el) => el.id)))
+    ];
+    addBoundaryEdges(
+      this.getBoundaryEvents(flowElements, nodeMap),
+      nodeMap,
+      adjacency,
+      inDegree
+    );
+    nodeMap.forEach((node) => {
+      node.constraints = readLayoutConstraints((node.element as BpmnElementLike).businessObject);
+    });
+    const backEdges = assignRanks(nodeMap, adjacency);
+
+    const hostOf = (el: BpmnElementLike) => el.host?.id ?? el.id;
+    const fixedElements = allElements.filter((el) => !inScope(el) && !nodeMap.has(hostOf(el)));
+    const fixedPredecessors = new Map<string, string[]>();
+    const fixedSuccessors = new Map<string, string[]>();
+    const connections = new Set<BpmnConnectionLike>();
+    for (const el of allElements) {
+      for (const conn of (el as { outgoing?: BpmnConnectionLike[] }).outgoing ?? []) {
+        const sourceId = hostOf(conn.source as BpmnElementLike);
+        const target = conn.target as BpmnElementLike;
+        if (!nodeMap.has(sourceId) && !nodeMap.has(target?.id)) continue;
+        connections.add(conn);
+        if (nodeMap.has(target.id) && !nodeMap.has(sourceId)) {
+          if (!fixedPredecessors.has(target.id)) fixedPredecessors.set(target.id, []);
+          fixedPredecessors.get(target.id)!.push(sourceId);
+        }
+        if (nodeMap.has(sourceId) && !nodeMap.has(target.id)) {
+          if (!fixedSuccessors.has(sourceId)) fixedSuccessors.set(sourceId, []);
+          fixedSuccessors.get(sourceId)!.push(target.id);
+        }
+      }
+    }
+
+    const { cross, crossSize } = LAYOUT_AXES[constants.orientation];
+    const laneInput = lanes.map((lane) => ({
+      id: lane.id,
+      y: lane[cross] ?? 0,
+      height: lane[crossSize] ?? 0,
+      element: lane
+    }));
+    const { laneData, maxGlobalRank } = buildLaneData(laneInput, nodeMap);
+    orderNodesWithinRanks(laneData, nodeMap, adjacency, maxGlobalRank);
+    const rankWidths = computeRankWidths(laneData, maxGlobalRank, constants);
+
+    const nodePositions = computeScopedLayout(
+      laneData,
+      nodeMap,
+      rankWidths,
+      fixedElements.map((el) => ({ id: el.id, ...this.getBounds(el) })),
+      fixedPredecessors,
+      fixedSuccessors,
+      constants
+    );
+    this.applyNodePositions(context, { lanes, nodeMap, laneData }, nodePositions);
+
+    const routes = this.computeConnectionRoutes(
+      allElements,
+      backEdges,
+      constants,
+      (el) => this.getBounds(el),
+      connections
+    );
+    routes.forEach((waypoints, conn) => context.modeling.updateWaypoints(conn, waypoints));
+    this.placeEdgeLabels(context, Array.from(routes.keys(), (conn) => conn.id));
+  }
+
+  private isInside(el: BpmnElementLike, containerId: string): boolean {
+    for (let parent = el.parent as BpmnElementLike | undefined; parent; parent = parent.parent as BpmnElementLike | undefined) {
+      if (parent.id === containerId) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Plans a layout run. In a collaboration every pool is laid out on its own; pools are then stacked
+   * top to bottom and each pool is shifted horizontally so its message flows run as vertical as possible.
+   */
+  private planLayout(context: BpmnLayoutContext, constants: LayoutConstants): LayoutPlan | null {
+    const registry = context.elementRegistry;
+    const flowElements = this.getFlowElements(registry);
+    const nodes = this.getLayoutNodes(flowElements);
+    const pools = this.getPools(registry, constants);
+    if (pools.length === 0) {
+      const rootId = context.canvas.getRootElement()?.id ?? null;
+      const plan = this.planLanes(this.getLanes(registry), nodes, flowElements, constants, rootId);
+      return plan && { ...plan, pools: [] };
+    }
+
+    const plan: LayoutPlan = {
+      lanes: [],
+      elements: [],
+      nodeMap: new Map(),
+      laneData: new Map(),
+      backEdges: [],
+      ordering: { crossingsBefore: 0, crossingsAfter: 0 },
+      nodePositions: [],
+      laneResizes: [],
+      pools: []
+    };
+    const messageFlows = registry.filter(
+      (e: BpmnElementLike) => e.type === 'bpmn:MessageFlow'
+    ) as unknown as BpmnConnectionLike[];
+    const { flow, cross, flowSize, crossSize } = LAYOUT_AXES[constants.orientation];
+    const plannedCenters = new Map<string, number>();
+    const start = Math.min(...pools.map((pool) => pool[flow] ?? 0));
+    let crossPos = pools[0][cross] ?? 0;
+    let minOffset = 0;
+
+    for (const pool of pools) {
+      const placement: PoolPlacement = {
+        element: pool,
+        ...toBounds(flow, start, crossPos, pool[flowSize] ?? 0, pool[crossSize] ?? 0)
+      };
+      const poolNodes = nodes.filter((el) => this.isInside(el, pool.id));
+      const poolPlan =
+        poolNodes.length > 0
+          ? this.planLanes(this.getLanes(registry, pool), poolNodes, flowElements, constants, null)
+          : null;
+
+      if (poolPlan) {
+        const flowShift = start - (pool[flow] ?? 0);
+        const crossShift = crossPos - (pool[cross] ?? 0);
+        const centerOf = (pos: NodePosition) => pos[flow] + flowShift + poolPlan.nodeMap.get(pos.nodeId)![flowSize] / 2;
+        const offset = this.getMessageFlowOffset(messageFlows, poolPlan, plannedCenters, centerOf);
+        const delta = toPoint(flow, flowShift + offset, crossShift);
+        minOffset = Math.min(minOffset, offset);
+
+        for (const pos of poolPlan.nodePositions) {
+          plan.nodePositions.push({
+            ...pos,
+            x: pos.x + delta.x,
+            y: pos.y + delta.y,
+            dx: pos.dx + delta.x,
+            dy: pos.dy + delta.y
+          });
+          plannedCenters.set(pos.nodeId, centerOf(pos) + offset);
+        }
+        for (const resize of poolPlan.laneResizes) {
+          plan.laneResizes.push({ ...resize, y: resize.y + crossShift });
+        }
+        poolPlan.laneData.forEach((meta, id) => plan.laneData.set(id, { ...meta, y: meta.y + crossShift }));
+        poolPlan.nodeMap.forEach((node, id) => plan.nodeMap.set(id, node));
+        plan.lanes.push(...poolPlan.lanes);
+        plan.elements.push(...poolPlan.elements);
+        plan.backEdges.push(...poolPlan.backEdges);
+        plan.ordering.crossingsBefore += poolPlan.ordering.crossingsBefore;
+        plan.ordering.crossingsAfter += poolPlan.ordering.crossingsAfter;
+        placement[crossSize] = poolPlan.laneResizes.reduce((sum, resize) => sum + resize.height, 0);
+      }
+
+      plan.pools.push(placement);
+      crossPos += placement[crossSize] + constants.poolSpacing;
+    }
+
+    const normalize = toPoint(flow, -minOffset, 0);
+    let extent = Math.max(...pools.map((pool) => pool[flowSize] ?? 0));
+    for (const pos of plan.nodePositions) {
+      pos.x += normalize.x;
+      pos.y += normalize.y;
+      pos.dx += normalize.x;
+      pos.dy += normalize.y;
+      extent = Math.max(extent, pos[flow] + plan.nodeMap.get(pos.nodeId)![flowSize] + constants.lanePadding - start);
+    }
+    for (const placement of plan.pools) placement[flowSize] = extent;
+
+    return plan.nodePositions.length > 0 ? plan : null;
+  }
+
+  private planLanes(
+    lanes: BpmnElementLike[],
+    nodes: BpmnElementLike[],
+    flowElements: BpmnElementLike[],
+    constants: LayoutConstants,
+    rootId: string | null
+  ): Omit<LayoutPlan, 'pools'> | null {
+    if (lanes.length === 0 || nodes.length === 0) return null;
+
+    const { nodeMap, adjacency, inDegree } = buildGraphFromElements(
+      nodes as Parameters<typeof buildGraphFromElements>[0],
+      (el) => this.resolveLaneId(el as unknown as BpmnElementLike, lanes)
+    );
+    const boundaryEvents = this.getBoundaryEvents(flowElements, nodeMap);
+    addBoundaryEdges(boundaryEvents, nodeMap, adjacency, inDegree);
+    nodeMap.forEach((node) => {
+      node.constraints = readLayoutConstraints((node.element as BpmnElementLike).businessObject);
+    });
+    const backEdges = assignRanks(nodeMap, adjacency);
+
+    const { cross, crossSize } = LAYOUT_AXES[constants.orientation];
+    const laneInput = lanes.map((lane) => ({
+      id: lane.id,
+      y: lane[cross] ?? 0,
+      height: lane[crossSize] ?? 0,
+      element: lane
+    }));
+    const { laneData, maxGlobalRank } = buildLaneData(laneInput, nodeMap);
+    const ordering = orderNodesWithinRanks(laneData, nodeMap, adjacency, maxGlobalRank);
+
+    computeLaneHeights(laneData, maxGlobalRank, constants);
+    const rankWidths = computeRankWidths(laneData, maxGlobalRank, constants);
+
+    const { nodePositions, laneResizes } = computeLayout(
+      laneData,
+      nodeMap,
+      rankWidths,
+      constants,
+      rootId
+    );
+    alignBlockPositions(
+      findGatewayBlocks(nodeMap, adjacency, backEdges),
+      nodeMap,
+      laneData,
+      nodePositions,
+      constants,
+      rootId
+    );
+
+    const elements = [...nodes, ...boundaryEvents];
+    return { lanes, elements, nodeMap, laneData, backEdges, ordering, nodePositions, laneResizes };
+  }
+
+  /**
+   * Horizontal shift that lines this pool's message flow endpoints up with their partners in the
+   * pools planned before it (median of the x differences).
+   */
+  private getMessageFlowOffset(
+    messageFlows: BpmnConnectionLike[],
+    poolPlan: Pick<LayoutPlan, 'nodeMap' | 'nodePositions'>,
+    plannedCenters: Map<string, number>,
+    centerOf: (pos: NodePosition) => number
+  ): number {
+    const positions = new Map(poolPlan.nodePositions.map((pos) => [pos.nodeId, pos]));
+    const deltas: number[] = [];
+    for (const flow of messageFlows) {
+      const ends = [flow.source, flow.target] as BpmnElementLike[];
+      for (const [own, other] of [ends, [...ends].reverse()]) {
+        const ownId = this.findLayoutNodeId(own, (id) => positions.has(id));
+        const otherId = this.findLayoutNodeId(other, (id) => plannedCenters.has(id));
+        if (ownId && otherId) deltas.push(plannedCenters.get(otherId)! - centerOf(positions.get(ownId)!));
+      }
+    }
+    if (deltas.length === 0) return 0;
+    deltas.sort((a, b) => a - b);
+    return deltas[Math.floor(deltas.length / 2)];
+  }
+
+  /** The layout node an element moves with: itself, the host of a boundary event or an enclosing subprocess. */
+  private findLayoutNodeId(el: BpmnElementLike | undefined, isNode: (id: string) => boolean): string | undefined {
+    for (let cur = el; cur; cur = cur.host ?? (cur.parent as BpmnElementLike | undefined)) {
+      if (isNode(cur.id)) return cur.id;
+    }
+    return undefined;
+  }
+
+  /**
+   * Lays out the contents of an expanded subprocess as a single-lane diagram of its own and sizes the
+   * subprocess to fit. Called deepest-first so that nested subprocesses already have their final size.
+   */
+  private layoutContainer(
+    context: BpmnLayoutContext,
+    container: BpmnElementLike,
+    flowElements: BpmnElementLike[],
+    constants: LayoutConstants
+  ): void {
+    const children = this.getLayoutNodes(flowElements, container.id);
+    if (children.length === 0) return;
+
+    const { nodeMap, adjacency, inDegree } = buildGraphFromElements(
+      children as Parameters<typeof buildGraphFromElements>[0],
+      () => container.id
+    );
+    const boundaryEvents = this.getBoundaryEvents(flowElements, nodeMap);
+    addBoundaryEdges(boundaryEvents, nodeMap, adjacency, inDegree);
+    nodeMap.forEach((node) => {
+      node.constraints = readLayoutConstraints((node.element as BpmnElementLike).businessObject);
+    });
+    const backEdges = assignRanks(nodeMap, adjacency);
+
+    const { flow, cross, flowSize } = LAYOUT_AXES[constants.orientation];
+    const area = { id: container.id, x: container.x ?? 0, y: container.y ?? 0, width: 0, height: 0 };
+    const { laneData, maxGlobalRank } = buildLaneData(
+      [{ id: container.id, y: area[cross], height: 0, element: area }],
+      nodeMap
+    );
+    orderNodesWithinRanks(laneData, nodeMap, adjacency, maxGlobalRank);
+    computeLaneHeights(laneData, maxGlobalRank, constants);
+    const rankWidths = computeRankWidths(laneData, maxGlobalRank, constants);
+    const { nodePositions } = computeLayout(laneData, nodeMap, rankWidths, constants, null);
+    alignBlockPositions(
+      findGatewayBlocks(nodeMap, adjacency, backEdges),
+      nodeMap,
+      laneData,
+      nodePositions,
+      constants,
+      null
+    );
+
+    let end = area[flow];
+    for (const pos of nodePositions) {
+      const node = nodeMap.get(pos.nodeId)!;
+      end = Math.max(end, pos[flow] + node[flowSize]);
+      if (Math.abs(pos.dx) > 1 || Math.abs(pos.dy) > 1) {
+        context.modeling.moveElements([node.element], { x: pos.dx, y: pos.dy }, container);
+      }
+    }
+    context.modeling.resizeShape(
+      container,
+      toBounds(flow, area[flow], area[cross], end + constants.lanePadding - area[flow], laneData.get(container.id)!.height)
+    );
+    this.rerouteConnections(context, [...children, ...boundaryEvents], backEdges, constants);
+  }
+
+  private getExpandedSubProcesses(flowElements: BpmnElementLike[]): BpmnElementLike[] {
+    const depthOf = (el: BpmnElementLike) => {
+      let depth = 0;
+      for (let p = el.parent as BpmnElementLike | undefined; p; p = p.parent as BpmnElementLike | undefined) depth++;
+      return depth;
+    };
+    return flowElements
+      .filter((el) => SUBPROCESS_TYPES.includes(el.type) && !(el as { collapsed?: boolean }).collapsed)
+      .sort((a, b) => depthOf(b) - depthOf(a));
+  }
+
+  private applyNodePositions(
+    context: BpmnLayoutContext,
+    plan: Pick<LayoutPlan, 'lanes' | 'nodeMap' | 'laneData'>,
+    nodePositions: NodePosition[]
+  ): void {
+    const laneById = new Map(plan.lanes.map((l) => [l.id, l]));
+    for (const pos of nodePositions) {
+      const node = plan.nodeMap.get(pos.nodeId);
+      if (!node) continue;
+      const meta = plan.laneData.get(pos.laneId);
+      if (!meta) continue;
+      const element = node.element as BpmnElementLike;
+      const dx = pos.x - (element.x ?? 0);
+      const dy = pos.y - (element.y ?? 0);
+      if (Math.abs(dx) > 1 || Math.abs(dy) > 1) {
+        const parent = laneById.get(pos.laneId) ?? meta.element;
+        context.modeling.moveElements([node.element], { x: dx, y: dy }, parent);
+      }
+    }
+  }
+
+  resolveEdgeCollisions(
+    context: BpmnLayoutContext,
+    maxPasses: number = 5,
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS,
+    changedConnectionIds?: string[]
+  ): void {
+    const updates = this.computeEdgeCollisionUpdates(context, maxPasses, constants, changedConnectionIds);
+    updates.forEach((waypoints, conn) => context.modeling.updateWaypoints(conn, waypoints));
+    if (updates.size > 0) this.placeEdgeLabels(context, Array.from(updates.keys(), (conn) => conn.id));
+  }
+
+  hasEdgeCollisions(
+    context: BpmnLayoutContext,
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS,
+    changedConnectionIds?: string[]
+  ): boolean {
+    return this.computeEdgeCollisionUpdates(context, 1, constants, changedConnectionIds).size > 0;
+  }
+
+  private computeEdgeCollisionUpdates(
+    context: BpmnLayoutContext,
+    maxPasses: number,
+    constants: LayoutConstants,
+    changedConnectionIds?: string[]
+  ): Map<BpmnConnectionLike, Point[]> {
+    const updates = new Map<BpmnConnectionLike, Point[]>();
+    const connections = context.elementRegistry.filter(
+      (e: BpmnElementLike) => ROUTED_CONNECTION_TYPES.includes(e.type)
+    ) as unknown as BpmnConnectionLike[];
+    if (connections.length === 0) return updates;
+
+    const connectionById = new Map(connections.map((c) => [c.id, c]));
+    const waypointsOf = (c: BpmnConnectionLike) => updates.get(c) ?? c.waypoints;
+    const parallelGroups = new Map<string, BpmnConnectionLike[]>();
+    const endpointKey = (c: BpmnConnectionLike) =>
+      [(c.source as { id?: string })?.id, (c.target as { id?: string })?.id].sort().join('|');
+    const index = new SegmentIndex();
+    for (const conn of connections) {
+      index.insertConnection(conn.id, extractSegments(conn.id, conn.waypoints));
+      const key = endpointKey(conn);
+      if (!parallelGroups.has(key)) parallelGroups.set(key, []);
+      parallelGroups.get(key)!.push(conn);
+    }
+
+    const obstacles = this.getObstacles(this.getFlowElements(context.elementRegistry));
+    let pending = new Set(
+      (changedConnectionIds ?? connections.map((c) => c.id)).filter((id) => connectionById.has(id))
+    );
+    for (let pass = 0; pass < maxPasses && pending.size > 0; pass++) {
+      const next = new Set<string>();
+      for (const id of pending) {
+        const conn = connectionById.get(id)!;
+        const neighbourIds = index.findNeighbours(conn.id, constants.collisionThreshold);
+        for (const parallel of parallelGroups.get(endpointKey(conn)) ?? []) neighbourIds.add(parallel.id);
+        neighbourIds.delete(conn.id);
+        const others = Array.from(neighbourIds, (nid) => connectionById.get(nid)!);
+        const { waypoints, updated } = computeResolvedWaypoints(
+          { id: conn.id, waypoints: waypointsOf(conn), source: conn.source, target: conn.target },
+          others.map((c) => ({ id: c.id, waypoints: waypointsOf(c), source: c.source, target: c.target })),
+          constants,
+          this.getObstaclesFor(conn, obstacles)
+        );
+        if (updated) {
+          updates.set(conn, waypoints);
+          index.insertConnection(conn.id, extractSegments(conn.id, waypoints));
+          next.add(conn.id);
+          for (const nid of index.findNeighbours(conn.id, constants.collisionThreshold)) next.add(nid);
+        }
+      }
+      pending = next;
+    }
+    return updates;
+  }
+
+  detectCollisions(
+    context: BpmnLayoutContext,
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+  ): CollisionConflict[] {
+    const connections = context.elementRegistry.filter(
+      (e: BpmnElementLike) => ROUTED_CONNECTION_TYPES.includes(e.type)
+    ) as unknown as BpmnConnectionLike[];
+    const allSegments: Segment[] = [];
+    const connectionEndpoints = new Map<string, string[]>();
+    for (const conn of connections) {
+      allSegments.push(...extractSegments(conn.id, conn.waypoints));
+      const ends = [conn.source, conn.target, (conn as { parent?: unknown }).parent] as Array<{ id?: string } | undefined>;
+      connectionEndpoints.set(conn.id, ends.map((e) => e?.id ?? '').filter(Boolean));
+    }
+
+    const shapes = this.getShapes(context.elementRegistry);
+    const labels: LabelLike[] = context.elementRegistry
+      .filter((e: BpmnElementLike) => e.type === 'label' && !e.hidden && (e.width ?? 0) > 0)
+      .map((el) => ({
+        id: el.id,
+        ownerId: (el as { labelTarget?: { id: string } }).labelTarget?.id ?? '',
+        x: el.x ?? 0,
+        y: el.y ?? 0,
+        width: el.width ?? 0,
+        height: el.height ?? 0
+      }));
+
+    return [
+      ...detectCollisions(allSegments, constants.collisionThreshold),
+      ...detectCrossings(allSegments),
+      ...detectEdgeShapeConflicts(allSegments, shapes, connectionEndpoints),
+      ...detectShapeOverlaps(shapes),
+      ...detectLabelEdgeConflicts(allSegments, labels)
+    ];
+  }
+
+  /** Quality metrics of the diagram as it currently is; compare the results of two runs to judge a layout. */
+  computeMetrics(
+    context: BpmnLayoutContext,
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+  ): LayoutMetrics {
+    const connections = context.elementRegistry.filter(
+      (e: BpmnElementLike) => ROUTED_CONNECTION_TYPES.includes(e.type)
+    ) as unknown as BpmnConnectionLike[];
+    const sequenceFlows = connections.filter(
+      (conn) => conn.type === 'bpmn:SequenceFlow' && conn.source != null && conn.target != null
+    );
+    const flowElements = this.getFlowElements(context.elementRegistry);
+    const lanes = this.getLanes(context.elementRegistry);
+    const nodes = this.getLayoutNodes(flowElements);
+
+    return computeLayoutMetrics({
+      edges: connections,
+      sequenceFlows: sequenceFlows.map((conn) => ({
+        source: this.getBounds(conn.source as BpmnElementLike),
+        target: this.getBounds(conn.target as BpmnElementLike)
+      })),
+      shapes: this.getShapes(context.elementRegistry),
+      lanes: lanes.map((lane) => ({
+        ...this.getBounds(lane),
+        nodes: nodes
+          .filter((el) => this.resolveLaneId(el, lanes) === lane.id)
+          .map((el) => this.getBounds(el))
+      })),
+      orientation: constants.orientation,
+      collisionThreshold: constants.collisionThreshold
+    });
+  }
+
+  resolveConflict(
+    context: BpmnLayoutContext,
+    conflict: CollisionConflict,
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+  ): boolean {
+    const find = (id: string) => context.elementRegistry.filter((e: BpmnElementLike) => e.id === id)[0];
+
+    if (conflict.kind === 'edge-edge') {
+      const [conn, other] = conflict.connections.map(find) as unknown as BpmnConnectionLike[];
+      if (!conn || !other) return false;
+      const { waypoints, updated } = computeResolvedWaypoints(
+        { id: conn.id, waypoints: conn.waypoints, source: conn.source, target: conn.target },
+        [{ id: other.id, waypoints: other.waypoints, source: other.source, target: other.target }],
+        constants,
+        this.getObstaclesFor(conn, this.getObstacles(this.getFlowElements(context.elementRegistry)))
+      );
+      if (updated) {
+        context.modeling.updateWaypoints(conn, waypoints);
+        this.placeEdgeLabels(context, [conn.id]);
+      }
+      return updated;
+    }
+
+    if (conflict.kind === 'edge-shape') {
+      const conn = find(conflict.connectionId) as unknown as BpmnConnectionLike | undefined;
+      if (!conn) return false;
+      this.routeConnections(context, [conn], constants);
+      const shape = find(conflict.shapeId);
+      const bounds = shape ? this.getBounds(shape) : conflict.shape;
+      return !extractSegments(conn.id, conn.waypoints).some((segment) => segmentIntersectsBounds(segment, bounds));
+    }
+
+    if (conflict.kind === 'shape-shape') {
+      const shape = find(conflict.shapes[1]);
+      if (!shape) return false;
+      const { flow, flowSize } = LAYOUT_AXES[constants.orientation];
+      const { bounds1, bounds2 } = conflict;
+      const overlap =
+        Math.min(bounds1[flow] + bounds1[flowSize], bounds2[flow] + bounds2[flowSize]) - Math.max(bounds1[flow], bounds2[flow]);
+      const direction = bounds2[flow] >= bounds1[flow] ? 1 : -1;
+      context.modeling.moveElements([shape], toPoint(flow, direction * (overlap + constants.rowSpacing), 0));
+      return true;
+    }
+
+    if (conflict.kind === 'label-edge') {
+      const label = find(conflict.labelId) as EdgeLabelLike | undefined;
+      if (label?.labelTarget?.type !== 'bpmn:SequenceFlow') return false;
+      // An explicit fix also moves a label the user has locked
+      this.placeEdgeLabels(context, [label.labelTarget.id], true);
+      return true;
+    }
+
+    return false;
+  }
+
+  routeConnections(
+    context: BpmnLayoutContext,
+    connections: BpmnConnectionLike[],
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+  ): void {
+    const obstacles = this.getObstacles(this.getFlowElements(context.elementRegistry));
+    for (const conn of connections) {
+      const source = conn.source as BpmnElementLike;
+      const target = conn.target as BpmnElementLike;
+      if (!source || !target || source.width == null || target.width == null) continue;
+      context.modeling.updateWaypoints(conn, this.computeRoute(conn, obstacles, constants));
+    }
+    this.placeEdgeLabels(context, connections.map((conn) => conn.id));
+  }
+
+  /**
+   * Moves the labels of sequence flows (all of them, or those of the given flows) next to the start
+   * of their flow, clear of shapes, other labels and edges. Labels locked by the user stay put.
+   */
+  placeEdgeLabels(context: BpmnLayoutContext, connectionIds?: string[], includeLocked = false): void {
+    const ids = connectionIds && new Set(connectionIds);
+    const labels = context.elementRegistry.filter(
+      (e: BpmnElementLike) => e.type === 'label' && !e.hidden && (e.width ?? 0) > 0
+    ) as EdgeLabelLike[];
+    const placed = labels.filter((label) => {
+      const conn = label.labelTarget;
+      return (
+        conn?.type === 'bpmn:SequenceFlow' &&
+        (!ids || ids.has(conn.id)) &&
+        (includeLocked || !isLabelLocked(conn.businessObject))
+      );
+    });
+    if (placed.length === 0) return;
+
+    const shapes = this.getObstacles(this.getFlowElements(context.elementRegistry));
+    const connections = context.elementRegistry.filter(
+      (e: BpmnElementLike) => ROUTED_CONNECTION_TYPES.includes(e.type)
+    ) as unknown as BpmnConnectionLike[];
+    const segments = connections.flatMap((conn) => extractSegments(conn.id, conn.waypoints));
+    const labelBounds = new Map(labels.map((label) => [label.id, this.getBounds(label)]));
+
+    for (const label of placed) {
+      const conn = label.labelTarget!;
+      // Containers the flow is drawn in are not in the way
+      const containers = new Set<string>();
+      for (let p = conn.parent as BpmnElementLike | undefined; p; p = p.parent as BpmnElementLike | undefined) {
+        containers.add(p.id);
+      }
+      const current = labelBounds.get(label.id)!;
+      const bounds = computeEdgeLabelBounds(current, conn.waypoints, {
+        shapes: shapes.filter((shape) => !containers.has(shape.id)),
+        labels: Array.from(labelBounds).filter(([id]) => id !== label.id).map(([, other]) => other),
+        segments
+      });
+      labelBounds.set(label.id, bounds);
+      const delta = { x: Math.round(bounds.x - current.x), y: Math.round(bounds.y - current.y) };
+      if (delta.x !== 0 || delta.y !== 0) context.modeling.moveShape(label, delta);
+    }
+  }
+
+  /** Leaf lanes only: nodes of a nested `laneSet` are laid out in the innermost lane that references them. */
+  private getLanes(registry: BpmnLayoutContext['elementRegistry'], pool?: BpmnElementLike): BpmnElementLike[] {
+    let lanes = registry.filter(
+      (e: BpmnElementLike) =>
+        e.type === 'bpmn:Lane' && !this.getChildLanes(e).length && (!pool || this.isInside(e, pool.id))
+    );
+    if (lanes.length === 0) {
+      lanes = pool ? [pool] : registry.filter((e: BpmnElementLike) => e.type === 'bpmn:Participant');
+    }
+    if (lanes.length === 0) {
+      lanes = registry.filter((e: BpmnElementLike) => e.type === 'bpmn:Process');
+    }
+    return lanes;
+  }
+
+  private getPools(registry: BpmnLayoutContext['elementRegistry'], constants: LayoutConstants): BpmnElementLike[] {
+    const { cross } = LAYOUT_AXES[constants.orientation];
+    return registry
+      .filter((e: BpmnElementLike) => e.type === 'bpmn:Participant')
+      .sort((a, b) => (a[cross] ?? 0) - (b[cross] ?? 0));
+  }
+
+  private getChildLanes(lane: BpmnElementLike): unknown[] {
+    const bo = lane.businessObject as { childLaneSet?: { lanes?: unknown[] } } | undefined;
+    return bo?.childLaneSet?.lanes ?? [];
+  }
+
+  private resolveLaneId(el: BpmnElementLike, lanes: BpmnElementLike[]): string {
+    const byRef = lanes.find((lane) =>
+      ((lane.businessObject as { flowNodeRef?: unknown[] } | undefined)?.flowNodeRef ?? []).includes(el.businessObject)
+    );
+    if (byRef) return byRef.id;
+
+    const cx = (el.x ?? 0) + (el.width ?? 0) / 2;
+    const cy = (el.y ?? 0) + (el.height ?? 0) / 2;
+    const containing = lanes
+      .filter(
+        (lane) =>
+          lane.x != null &&
+          lane.y != null &&
+          cx >= lane.x &&
+          cx <= lane.x + (lane.width ?? 0) &&
+          cy >= lane.y &&
+          cy <= lane.y + (lane.height ?? 0)
+      )
+      .sort((a, b) => (a.width ?? 0) * (a.height ?? 0) - (b.width ?? 0) * (b.height ?? 0));
+    return containing[0]?.id ?? el.parent?.id ?? '';
+  }
+
+  /** Grows or shrinks every parent lane of a nested `laneSet` to span its child lanes, innermost first. */
+  private resizeParentLanes(context: BpmnLayoutContext, constants: LayoutConstants): void {
+    const { flow, cross, flowSize, crossSize } = LAYOUT_AXES[constants.orientation];
+    const parents = context.elementRegistry
+      .filter((e: BpmnElementLike) => e.type === 'bpmn:Lane' && this.getChildLanes(e).length > 0)
+      .reverse();
+    for (const lane of parents) {
+      const children = context.elementRegistry.filter(
+        (e: BpmnElementLike) => e.type === 'bpmn:Lane' && e.parent?.id === lane.id
+      );
+      if (children.length === 0) continue;
+      const top = Math.min(...children.map((c) => c[cross] ?? 0));
+      const bottom = Math.max(...children.map((c) => (c[cross] ?? 0) + (c[crossSize] ?? 0)));
+      const extent = Math.max(...children.map((c) => (c[flow] ?? 0) + (c[flowSize] ?? 0))) - (lane[flow] ?? 0);
+      if (top === lane[cross] && bottom - top === lane[crossSize] && extent === lane[flowSize]) continue;
+      context.modeling.resizeShape(lane, toBounds(flow, lane[flow] ?? 0, top, extent, bottom - top));
+    }
+  }
+
+  private getShapes(registry: BpmnLayoutContext['elementRegistry']): ShapeLike[] {
+    return this.getFlowElements(registry)
+      .filter((el) => el.width != null && el.height != null && !('waypoints' in el))
+      .map((el) => ({
+        id: el.id,
+        x: el.x ?? 0,
+        y: el.y ?? 0,
+        width: el.width ?? 0,
+        height: el.height ?? 0,
+        hostId: el.host?.id,
+        parentId: el.parent?.id
+      }));
+  }
+
+  private getFlowElements(registry: BpmnLayoutContext['elementRegistry']): BpmnElementLike[] {
+    return registry.filter((e: BpmnElementLike) =>
+      e.type !== 'bpmn:Lane' &&
+      e.type !== 'bpmn:Participant' &&
+      e.type !== 'bpmn:Process' &&
+      e.type !== 'bpmn:SequenceFlow' &&
+      e.type !== 'bpmn:Association' &&
+      e.type !== 'label' &&
+      !('waypoints' in e) &&
+      !e.hidden &&
+      e.businessObject != null
+    );
+  }
+
+  /**
+   * The nodes ranked by a layout run: direct children of the given container (or of the top-level
+   * lanes/pools), without boundary events, which travel with their host.
+   */
+  private getLayoutNodes(flowElements: BpmnElementLike[], containerId?: string): BpmnElementLike[] {
+    return flowElements.filter((el) => {
+      if (el.type === 'bpmn:BoundaryEvent') return false;
+      const parent = el.parent as BpmnElementLike | undefined;
+      return containerId != null ? parent?.id === containerId : !parent || LANE_CONTAINER_TYPES.includes(parent.type);
+    });
+  }
+
+  private getBoundaryEvents(flowElements: BpmnElementLike[], hosts: { has: (id: string) => boolean }): BpmnElementLike[] {
+    return flowElements.filter((el) => el.type === 'bpmn:BoundaryEvent' && el.host != null && hosts.has(el.host.id));
+  }
+
+  private rerouteConnections(
+    context: BpmnLayoutContext,
+    elements: BpmnElementLike[],
+    backEdges: BackEdge[] = [],
+    constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+  ): BpmnConnectionLike[] {
+    const routes = this.computeConnectionRoutes(elements, backEdges, constants, (el) => this.getBounds(el));
+    routes.forEach((waypoints, conn) => context.modeling.updateWaypoints(conn, waypoints));
+    return Array.from(routes.keys());
+  }
+
+  private computeConnectionRoutes(
+    elements: BpmnElementLike[],
+    backEdges: BackEdge[],
+    constants: LayoutConstants,
+    boundsOf: (el: BpmnElementLike) => Bounds,
+    connections: Set<BpmnConnectionLike> = this.getOutgoingConnections(elements)
+  ): Map<BpmnConnectionLike, Point[]> {
+    const routes = new Map<BpmnConnectionLike, Point[]>();
+    const obstacles = this.getObstacles(elements, boundsOf);
+    const backEdgeKeys = new Set(backEdges.map((e) => `${e.sourceId}->${e.targetId}`));
+    const loopsPerChannel = new Map<string, number>();
+    const innerBranches = this.findInnerGatewayBranches(connections, backEdgeKeys, constants, boundsOf);
+
+    for (const conn of connections) {
+      const source = (conn as BpmnConnectionLike & { source: BpmnElementLike }).source as BpmnElementLike;
+      const target = (conn as BpmnConnectionLike & { target: BpmnElementLike }).target as BpmnElementLike;
+      if (!source || !target) continue;
+      const sourceBounds = boundsOf(source);
+      const targetBounds = boundsOf(target);
+
+      if (backEdgeKeys.has(`${source.id}->${target.id}`)) {
+        const channel = this.computeLoopBackChannel(source, target, elements, constants, boundsOf);
+        const channelKey = `${source.parent?.id}:${channel.above ? 'above' : 'below'}`;
+        const stacked = loopsPerChannel.get(channelKey) ?? 0;
+        loopsPerChannel.set(channelKey, stacked + 1);
+        const channelY = channel.y + (channel.above ? -1 : 1) * stacked * constants.parallelOffset;
+        routes.set(
+          conn,
+          computeLoopBackWaypoints(
+            sourceBounds.x,
+            sourceBounds.y,
+            sourceBounds.width,
+            sourceBounds.height,
+            targetBounds.x,
+            targetBounds.y,
+            targetBounds.width,
+            targetBounds.height,
+            channelY,
+            constants.orientation
+          )
+        );
+        continue;
+      }
+
+      routes.set(
+        conn,
+        this.computeRoute(conn, obstacles, constants, boundsOf, {
+          source: !innerBranches.sources.has(conn),
+          target: !innerBranches.targets.has(conn)
+        })
+      );
+    }
+    return routes;
+  }
+
+  /**
+   * Gateway branches that would share the gateway's top or bottom corner with a branch reaching
+   * further across the flow. Only the outermost branch on each side takes the corner; the others
+   * dock at the gateway's side so that their tracks do not lie on top of each other.
+   */
+  private findInnerGatewayBranches(
+    connections: Set<BpmnConnectionLike>,
+    backEdgeKeys: Set<string>,
+    constants: LayoutConstants,
+    boundsOf: (el: BpmnElementLike) => Bounds
+  ): { sources: Set<BpmnConnectionLike>; targets: Set<BpmnConnectionLike> } {
+    const { flow, cross, flowSize, crossSize } = LAYOUT_AXES[constants.orientation];
+    const groups = new Map<string, Array<{ conn: BpmnConnectionLike; distance: number }>>();
+    const addToGroup = (key: string, conn: BpmnConnectionLike, distance: number) => {
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push({ conn, distance });
+    };
+
+    for (const conn of connections) {
+      const source = conn.source as BpmnElementLike | undefined;
+      const target = conn.target as BpmnElementLike | undefined;
+      if (!source || !target || backEdgeKeys.has(`${source.id}->${target.id}`)) continue;
+      const sourceBounds = boundsOf(source);
+      const targetBounds = boundsOf(target);
+      const flowOffset =
+        targetBounds[flow] + targetBounds[flowSize] / 2 - (sourceBounds[flow] + sourceBounds[flowSize] / 2);
+      if (flowOffset < 0) continue;
+      const offset =
+        targetBounds[cross] + targetBounds[crossSize] / 2 - (sourceBounds[cross] + sourceBounds[crossSize] / 2);
+      const side = offset < 0 ? 'before' : 'after';
+      if (source.type.endsWith('Gateway') && Math.abs(offset) > sourceBounds[crossSize] / 2) {
+        addToGroup(`source:${source.id}:${side}`, conn, Math.abs(offset));
+      }
+      if (target.type.endsWith('Gateway') && Math.abs(offset) > targetBounds[crossSize] / 2) {
+        addToGroup(`target:${target.id}:${side}`, conn, Math.abs(offset));
+      }
+    }
+
+    const sources = new Set<BpmnConnectionLike>();
+    const targets = new Set<BpmnConnectionLike>();
+    groups.forEach((branches, key) => {
+      const outermost = branches.reduce((best, branch) => (branch.distance > best.distance ? branch : best));
+      const inner = key.startsWith('source:') ? sources : targets;
+      branches.filter((branch) => branch !== outermost).forEach(({ conn }) => inner.add(conn));
+    });
+    return { sources, targets };
+  }
+
+  private getOutgoingConnections(elements: BpmnElementLike[]): Set<BpmnConnectionLike> {
+    const connections = new Set<BpmnConnectionLike>();
+    for (const el of elements) {
+      const out = (el as BpmnElementLike & { outgoing?: BpmnConnectionLike[] }).outgoing;
+      if (out) for (const c of out) connections.add(c as BpmnConnectionLike);
+    }
+    return connections;
+  }
+
+  private getBounds(el: BpmnElementLike): Bounds {
+    return { x: el.x ?? 0, y: el.y ?? 0, width: el.width ?? 0, height: el.height ?? 0 };
+  }
+
+  private getObstacles(
+    elements: BpmnElementLike[],
+    boundsOf: (el: BpmnElementLike) => Bounds = (el) => this.getBounds(el)
+  ): Array<Bounds & { id: string }> {
+    return elements
+      .filter((el) => el.width != null && el.height != null && !('waypoints' in el))
+      .map((el) => ({ id: el.id, ...boundsOf(el) }));
+  }
+
+  /**
+   * The obstacles a connection must avoid: all but its ends, the containers they sit in and the
+   * boundary events attached to them, which cover their docking ports.
+   */
+  private getObstaclesFor(
+    conn: BpmnConnectionLike,
+    obstacles: Array<Bounds & { id: string }>
+  ): Array<Bounds & { id: string }> {
+    const excluded = new Set<string>();
+    for (const end of [conn.source, conn.target] as Array<BpmnElementLike | undefined>) {
+      for (let el = end; el; el = el.parent as BpmnElementLike | undefined) excluded.add(el.id);
+      end?.attachers?.forEach((attacher) => excluded.add(attacher.id));
+    }
+    return obstacles.filter((o) => !excluded.has(o.id));
+  }
+
+  private computeRoute(
+    conn: BpmnConnectionLike,
+    obstacles: Array<Bounds & { id: string }>,
+    constants: LayoutConstants,
+    boundsOf: (el: BpmnElementLike) => Bounds = (el) => this.getBounds(el),
+    corners: { source: boolean; target: boolean } = { source: true, target: true }
+  ): Point[] {
+    const source = conn.source as BpmnElementLike;
+    const target = conn.target as BpmnElementLike;
+    const sourceBounds = boundsOf(source);
+    const targetBounds = boundsOf(target);
+    let sides: Partial<Record<'sourceSide' | 'targetSide', DockingSide>> = {};
+    if (conn.type === 'bpmn:MessageFlow') {
+      sides = chooseFacingSides(
+        sourceBounds,
+        targetBounds,
+        constants.orientation === 'horizontal' ? 'vertical' : 'horizontal'
+      );
+    } else if (conn.type != null && ASSOCIATION_TYPES.includes(conn.type)) {
+      sides = chooseFacingSides(sourceBounds, targetBounds);
+    } else if (source.host) {
+      sides = { sourceSide: getAttachmentSide(sourceBounds, boundsOf(source.host)) };
+    }
+    return computeRoutedWaypoints(
+      sourceBounds,
+      targetBounds,
+      this.getObstaclesFor(conn, obstacles),
+      corners.source && source.type.endsWith('Gateway'),
+      constants,
+      sides,
+      corners.target && target.type.endsWith('Gateway')
+    );
+  }
+
+  private computeLoopBackChannel(
+    source: BpmnElementLike,
+    target: BpmnElementLike,
+    elements: BpmnElementLike[],
+    constants: LayoutConstants,
+    boundsOf: (el: BpmnElementLike) => Bounds
+  ): { y: number; above: boolean } {
+    const { flow, cross, flowSize, crossSize } = LAYOUT_AXES[constants.orientation];
+    const sourceBounds = boundsOf(source);
+    const targetBounds = boundsOf(target);
+    const minX = Math.min(sourceBounds[flow], targetBounds[flow]);
+    const maxX = Math.max(sourceBounds[flow] + sourceBounds[flowSize], targetBounds[flow] + targetBounds[flowSize]);
+    let top = Math.min(sourceBounds[cross], targetBounds[cross]);
+    let bottom = Math.max(sourceBounds[cross] + sourceBounds[crossSize], targetBounds[cross] + targetBounds[crossSize]);
+
+    for (const el of elements) {
+      if (el.parent?.id !== source.parent?.id) continue;
+      const bounds = boundsOf(el);
+      if (bounds[flow] + bounds[flowSize] < minX || bounds[flow] > maxX) continue;
+      top = Math.min(top, bounds[cross]);
+      bottom = Math.max(bottom, bounds[cross] + bounds[crossSize]);
+    }
+
+    const lane = source.parent as BpmnElementLike | undefined;
+    const laneStart = lane?.[cross];
+    const spaceAbove = laneStart != null ? top - laneStart : Infinity;
+    const spaceBelow = laneStart != null ? laneStart + (lane?.[crossSize] ?? 0) - bottom : 0;
+    return spaceAbove >= spaceBelow
+      ? { y: top - constants.rowSpacing, above: true }
+      : { y: bottom + constants.rowSpacing, above: false };
+  }
+}
@@ -1,4 +1,25 @@
-import type { LayoutNode, LaneMeta, LayoutConstants } from './layout.types';
+import type { LayoutNode, LaneMeta, LayoutConstants, Point, Bounds } from './layout.types';
+import { DEFAULT_LAYOUT_CONSTANTS, LAYOUT_AXES } from './layout.types';
+import { applyOrderConstraints, getStackGap, getStackHeight, isPinned } from './layout.constraints';
+
+type Geometry = Partial<Record<'x' | 'y' | 'width' | 'height', number>>;
+
+/** Diagram point for a position given along the flow axis and across it. */
+export function toPoint(flow: 'x' | 'y', flowPos: number, crossPos: number): Point {
+  return flow === 'x' ? { x: flowPos, y: crossPos } : { x: crossPos, y: flowPos };
+}
+
+export function toBounds(
+  flow: 'x' | 'y',
+  flowPos: number,
+  crossPos: number,
+  flowSize: number,
+  crossSize: number
+): Bounds {
+  const size =
+    flow === 'x' ? { width: flowSize, height: crossSize } : { width: crossSize, height: flowSize };
+  return { ...toPoint(flow, flowPos, crossPos), ...size };
+}
 
 export function buildLaneData(
   lanes: Array<{ id: string; y: number; height: number; element: unknown }>,
@@ -31,15 +52,18 @@ export function buildLaneData(
 
 export function computeRankWidths(
   laneData: Map<string, LaneMeta>,
-  maxGlobalRank: number
+  maxGlobalRank: number,
+  constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
 ): Map<number, number> {
+  const { flowSize } = LAYOUT_AXES[constants.orientation];
   const rankWidths = new Map<number, number>();
   for (let r = 0; r <= maxGlobalRank; r++) {
     let maxWidth = 100;
     laneData.forEach((meta) => {
       const nodes = meta.nodesByRank.get(r) ?? [];
       for (const n of nodes) {
-        if (n.width > maxWidth) maxWidth = n.width;
+        const extraSpacing = Math.max(0, (n.constraints?.minSpacing ?? 0) - constants.colSpacing);
+        if (n[flowSize] + extraSpacing > maxWidth) maxWidth = n[flowSize] + extraSpacing;
       }
     });
     rankWidths.set(r, maxWidth);
@@ -52,16 +76,16 @@ export function computeLaneHeights(
   maxGlobalRank: number,
   constants: LayoutConstants
 ): void {
+  const { crossSize } = LAYOUT_AXES[constants.orientation];
   laneData.forEach((meta) => {
     let maxStackHeight = 0;
     for (let r = 0; r <= maxGlobalRank; r++) {
-      const nodes = meta.nodesByRank.get(r) ?? [];
-      const stackHeight =
-        nodes.reduce((sum, n) => sum + n.height, 0) + (nodes.length - 1) * constants.rowSpacing;
+      const nodes = (meta.nodesByRank.get(r) ?? []).filter((n) => !isPinned(n));
+      const stackHeight = getStackHeight(nodes, constants);
       if (stackHeight > maxStackHeight) maxStackHeight = stackHeight;
     }
     const requiredHeight = maxStackHeight + constants.lanePadding * 2;
-    meta.height = Math.max((meta.element as { height?: number }).height ?? 0, requiredHeight);
+    meta.height = Math.max((meta.element as Geometry)[crossSize] ?? 0, requiredHeight);
   });
 }
 
@@ -89,13 +113,16 @@ export function computeLayout(
   constants: LayoutConstants,
   rootElementId: string | null
 ): { nodePositions: NodePosition[]; laneResizes: LaneResize[] } {
+  const { flow, cross, crossSize } = LAYOUT_AXES[constants.orientation];
   const nodePositions: NodePosition[] = [];
   const laneResizes: LaneResize[] = [];
   const laneList = Array.from(laneData.values()).sort(
-    (a, b) => ((a.element as { y?: number }).y ?? 0) - ((b.element as { y?: number }).y ?? 0)
+    (a, b) => ((a.element as Geometry)[cross] ?? 0) - ((b.element as Geometry)[cross] ?? 0)
   );
 
-  let currentLaneY = (laneList[0]?.element as { y?: number }).y ?? 0;
+  let currentLaneY = (laneList[0]?.element as Geometry)[cross] ?? 0;
+  // Nested lanes are indented by their parents' headers; ranks start after the deepest one.
+  const lanesStart = Math.max(...laneList.map((meta) => (meta.element as Geometry)[flow] ?? 0));
 
   for (const meta of laneList) {
     const isRoot = (meta.element as { id?: string }).id === rootElementId;
@@ -118,34 +145,35 @@ export function computeLayout(
   nodeMap.forEach((node) => {
     const meta = laneData.get(node.laneId);
     if (!meta) return;
+    if (isPinned(node)) {
+      const pinned = node.element as { x: number; y: number };
+      nodePositions.push({ nodeId: node.id, x: pinned.x, y: pinned.y, dx: 0, dy: 0, laneId: node.laneId });
+      return;
+    }
     const isRoot = (meta.element as { id?: string }).id === rootElementId;
-    const startX = isRoot ? constants.startXOffset : ((meta.element as { x?: number }).x ?? 0) + constants.lanePadding;
-
-    let newX = startX;
+    let flowPos = isRoot ? constants.startXOffset : lanesStart + constants.lanePadding;
     for (let i = 0; i < node.rank; i++) {
-      newX += (rankWidths.get(i) ?? 100) + constants.colSpacing;
+      flowPos += (rankWidths.get(i) ?? 100) + constants.colSpacing;
     }
 
-    const siblings = meta.nodesByRank.get(node.rank) ?? [];
+    const siblings = applyOrderConstraints((meta.nodesByRank.get(node.rank) ?? []).filter((n) => !isPinned(n)));
     const index = siblings.indexOf(node);
-    const totalStackHeight =
-      siblings.reduce((sum, n) => sum + n.height, 0) + Math.max(0, siblings.length - 1) * constants.rowSpacing;
-    const laneCenterY = meta.y + meta.height / 2;
-    const startStackY = laneCenterY - totalStackHeight / 2;
+    const totalStackHeight = getStackHeight(siblings, constants);
+    const laneCenter = meta.y + meta.height / 2;
 
-    let stackOffset = 0;
+    let crossPos = laneCenter - totalStackHeight / 2;
     for (let i = 0; i < index; i++) {
-      stackOffset += siblings[i].height + constants.rowSpacing;
+      crossPos += siblings[i][crossSize] + getStackGap(siblings[i], siblings[i + 1], constants);
     }
-    const newY = startStackY + stackOffset;
 
+    const position = toPoint(flow, flowPos, crossPos);
     const elem = node.element as { x: number; y: number };
     nodePositions.push({
       nodeId: node.id,
-      x: newX,
-      y: newY,
-      dx: newX - elem.x,
-      dy: newY - elem.y,
+      x: position.x,
+      y: position.y,
+      dx: position.x - elem.x,
+      dy: position.y - elem.y,
       laneId: node.laneId
     });
   });
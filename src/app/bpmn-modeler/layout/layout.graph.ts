@@ -1,6 +1,19 @@
-import type { LayoutNode } from './layout.types';
+import type { LayoutNode, BackEdge } from './layout.types';
+import { alignBlockRanks, findGatewayBlocks } from './layout.blocks';
 
-export function buildGraphFromElements(elements: Array<{ id: string; parent: { id: string }; width: number; height: number; outgoing?: Array<{ target: { id: string } }> }>): {
+/** What the graph builder needs of a diagram element; by default a node's lane is its parent. */
+export interface GraphElement {
+  id: string;
+  parent?: { id: string };
+  width: number;
+  height: number;
+  outgoing?: Array<{ target: { id: string } }>;
+}
+
+export function buildGraphFromElements<T extends GraphElement>(
+  elements: T[],
+  getLaneId: (el: T) => string = (el) => el.parent?.id ?? ''
+): {
   nodeMap: Map<string, LayoutNode>;
   adjacency: Map<string, string[]>;
   inDegree: Map<string, number>;
@@ -14,7 +27,7 @@ export function buildGraphFromElements(elements: Array<{ id: string; parent: { i
       id: el.id,
       element: el,
       rank: 0,
-      laneId: el.parent.id,
+      laneId: getLaneId(el),
       width: el.width,
       height: el.height
     });
@@ -35,15 +48,110 @@ export function buildGraphFromElements(elements: Array<{ id: string; parent: { i
   return { nodeMap, adjacency, inDegree };
 }
 
-export function assignRanks(
+/**
+ * Boundary events are not layout nodes of their own: they travel with their host. Their outgoing
+ * flows are added as edges of the host so the targets are still ranked after it.
+ */
+export function addBoundaryEdges(
+  boundaryEvents: Array<{ host?: { id: string }; outgoing?: Array<{ target: { id: string } }> }>,
   nodeMap: Map<string, LayoutNode>,
-  adjacency: Map<string, string[]>
+  adjacency: Map<string, string[]>,
+  inDegree?: Map<string, number>
 ): void {
+  for (const boundary of boundaryEvents) {
+    const neighbors = boundary.host && adjacency.get(boundary.host.id);
+    if (!neighbors) continue;
+    for (const conn of boundary.outgoing ?? []) {
+      const targetId = conn.target.id;
+      if (!nodeMap.has(targetId) || neighbors.includes(targetId)) continue;
+      neighbors.push(targetId);
+      inDegree?.set(targetId, (inDegree.get(targetId) ?? 0) + 1);
+    }
+  }
+}
+
+/**
+ * Finds the edges that close a cycle using an iterative DFS. Traversal starts from the
+ * nodes without incoming edges (start events), so loops are broken at the edge pointing
+ * back towards the start of the process rather than at an arbitrary node.
+ */
+export function findBackEdges(
+  nodeMap: Map<string, LayoutNode>,
+  adjacency: Map<string, string[]>
+): BackEdge[] {
   const inDegree = new Map<string, number>();
   nodeMap.forEach((_, id) => inDegree.set(id, 0));
-  adjacency.forEach((neighbors, fromId) => {
+  adjacency.forEach((neighbors) => {
     for (const toId of neighbors) {
-      inDegree.set(toId, (inDegree.get(toId) ?? 0) + 1);
+      if (inDegree.has(toId)) inDegree.set(toId, inDegree.get(toId)! + 1);
+    }
+  });
+
+  const roots: string[] = [];
+  nodeMap.forEach((_, id) => {
+    if (inDegree.get(id) === 0) roots.push(id);
+  });
+  nodeMap.forEach((_, id) => {
+    if (inDegree.get(id)! > 0) roots.push(id);
+  });
+
+  const state = new Map<string, 'active' | 'done'>();
+  const backEdges: BackEdge[] = [];
+
+  for (const rootId of roots) {
+    if (state.has(rootId)) continue;
+    const stack: Array<{ id: string; next: number }> = [{ id: rootId, next: 0 }];
+    state.set(rootId, 'active');
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const neighbors = adjacency.get(frame.id) ?? [];
+      if (frame.next >= neighbors.length) {
+        state.set(frame.id, 'done');
+        stack.pop();
+        continue;
+      }
+      const nextId = neighbors[frame.next++];
+      if (!nodeMap.has(nextId)) continue;
+      const nextState = state.get(nextId);
+      if (nextState === 'active') {
+        backEdges.push({ sourceId: frame.id, targetId: nextId });
+      } else if (nextState === undefined) {
+        state.set(nextId, 'active');
+        stack.push({ id: nextId, next: 0 });
+      }
+    }
+  }
+
+  return backEdges;
+}
+
+/**
+ * Assigns longest-path ranks on the graph with its back edges removed, then lifts nodes with a
+ * `sameRankAs` constraint to a shared rank and centres the branches of split/join gateway blocks
+ * between their gateways. Returns the back edges so callers can route them as
+ * loop-backs instead of forward flows.
+ */
+export function assignRanks(
+  nodeMap: Map<string, LayoutNode>,
+  adjacency: Map<string, string[]>
+): BackEdge[] {
+  const backEdges = findBackEdges(nodeMap, adjacency);
+  const backEdgeKeys = new Set(backEdges.map((e) => `${e.sourceId}->${e.targetId}`));
+
+  const inDegree = new Map<string, number>();
+  nodeMap.forEach((node, id) => {
+    node.rank = 0;
+    inDegree.set(id, 0);
+  });
+  const forward = new Map<string, string[]>();
+  adjacency.forEach((neighbors, fromId) => {
+    const targets = neighbors.filter(
+      (toId) => nodeMap.has(toId) && !backEdgeKeys.has(`${fromId}->${toId}`)
+    );
+    forward.set(fromId, targets);
+    for (const toId of targets) {
+      inDegree.set(toId, inDegree.get(toId)! + 1);
     }
   });
 
@@ -51,20 +159,54 @@ export function assignRanks(
   nodeMap.forEach((node) => {
     if (inDegree.get(node.id) === 0) queue.push(node.id);
   });
-  if (queue.length === 0 && nodeMap.size > 0) {
-    queue.push(nodeMap.keys().next().value!);
-  }
 
+  const topologicalOrder: string[] = [];
   while (queue.length > 0) {
     const currId = queue.shift()!;
+    topologicalOrder.push(currId);
     const currNode = nodeMap.get(currId)!;
-    const neighbors = adjacency.get(currId) ?? [];
-    for (const nextId of neighbors) {
+    for (const nextId of forward.get(currId) ?? []) {
       const nextNode = nodeMap.get(nextId)!;
-      if (nextNode.rank <= currNode.rank) {
-        nextNode.rank = currNode.rank + 1;
-        queue.push(nextId);
+      if (nextNode.rank <= currNode.rank) nextNode.rank = currNode.rank + 1;
+      const remaining = inDegree.get(nextId)! - 1;
+      inDegree.set(nextId, remaining);
+      if (remaining === 0) queue.push(nextId);
+    }
+  }
+
+  applySameRankConstraints(nodeMap, forward, topologicalOrder);
+  alignBlockRanks(nodeMap, findGatewayBlocks(nodeMap, forward));
+  return backEdges;
+}
+
+function applySameRankConstraints(
+  nodeMap: Map<string, LayoutNode>,
+  forward: Map<string, string[]>,
+  topologicalOrder: string[]
+): void {
+  const constrained = Array.from(nodeMap.values()).filter(
+    (node) => node.constraints?.sameRankAs && nodeMap.has(node.constraints.sameRankAs)
+  );
+  if (constrained.length === 0) return;
+
+  for (let iteration = 0; iteration <= nodeMap.size; iteration++) {
+    let changed = false;
+    for (const node of constrained) {
+      const other = nodeMap.get(node.constraints!.sameRankAs!)!;
+      if (node.rank === other.rank) continue;
+      node.rank = other.rank = Math.max(node.rank, other.rank);
+      changed = true;
+    }
+    for (const currId of topologicalOrder) {
+      const currNode = nodeMap.get(currId)!;
+      for (const nextId of forward.get(currId) ?? []) {
+        const nextNode = nodeMap.get(nextId)!;
+        if (nextNode.rank <= currNode.rank) {
+          nextNode.rank = currNode.rank + 1;
+          changed = true;
+        }
       }
     }
+    if (!changed) break;
   }
 }
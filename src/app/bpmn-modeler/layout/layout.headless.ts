@@ -0,0 +1,424 @@
+import BpmnModdle, { type ModdleElement } from 'bpmn-moddle';
+import {
+  BpmnLayoutEngine,
+  type BpmnLayoutContext,
+  type BpmnElementLike,
+  type BpmnConnectionLike
+} from './layout.engine';
+import { layoutModdleDescriptor } from './layout.constraints';
+import { createDiagramInterchange } from './layout.di';
+import { readLayoutSettings, toLayoutConstants } from './layout.settings';
+import type { Bounds, CollisionConflict, LayoutConstants, OrderingResult, Point } from './layout.types';
+
+export interface HeadlessLayoutOptions {
+  /** Overrides the layout settings stored in the diagram. */
+  constants?: Partial<LayoutConstants>;
+}
+
+export interface HeadlessCheckResult {
+  conflicts: CollisionConflict[];
+  warnings: string[];
+}
+
+export interface HeadlessLayoutResult extends HeadlessCheckResult {
+  xml: string;
+  ordering: OrderingResult;
+}
+
+interface HeadlessLabel extends Bounds {
+  id: string;
+  type: 'label';
+  labelTarget: { id: string };
+  di: ModdleElement;
+}
+
+/** The process or collaboration the plane shows; like the bpmn-js root element it has no bounds. */
+interface HeadlessRoot extends BpmnElementLike {
+  businessObject: ModdleElement;
+  children: HeadlessShape[];
+}
+
+interface HeadlessShape extends BpmnElementLike {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  businessObject: ModdleElement;
+  di: ModdleElement;
+  parent?: HeadlessShape | HeadlessRoot;
+  host?: HeadlessShape;
+  collapsed?: boolean;
+  children: HeadlessShape[];
+  attachers: HeadlessShape[];
+  outgoing: HeadlessConnection[];
+  incoming: HeadlessConnection[];
+  labels: HeadlessLabel[];
+}
+
+interface HeadlessConnection extends BpmnConnectionLike {
+  type: string;
+  businessObject: ModdleElement;
+  di: ModdleElement;
+  parent?: HeadlessShape | HeadlessRoot;
+  source: HeadlessShape;
+  target: HeadlessShape;
+  labels: HeadlessLabel[];
+}
+
+interface HeadlessModel {
+  root: HeadlessRoot;
+  shapes: HeadlessShape[];
+  connections: HeadlessConnection[];
+  labels: HeadlessLabel[];
+  context: BpmnLayoutContext;
+}
+
+const DATA_INPUT_ASSOCIATION = 'bpmn:DataInputAssociation';
+const DATA_OUTPUT_ASSOCIATION = 'bpmn:DataOutputAssociation';
+
+/**
+ * Lays out a BPMN document without a browser and returns it with updated BPMNDI bounds and waypoints.
+ * Documents without diagram interchange get one generated first.
+ */
+export async function layoutBpmnXml(xml: string, options: HeadlessLayoutOptions = {}): Promise<HeadlessLayoutResult> {
+  const moddle = createModdle();
+  const { definitions, warnings } = await parseDefinitions(moddle, xml);
+  if (!hasDiagram(definitions)) createDiagramInterchange(definitions, moddle, options.constants?.orientation);
+  const { ordering, conflicts } = layoutDefinitions(moddle, definitions, options);
+
+  const result = await moddle.toXML(definitions, { format: true });
+  return { xml: result.xml, ordering, conflicts, warnings };
+}
+
+/**
+ * Returns the document unchanged when it has diagram interchange; otherwise generates shapes and
+ * edges for its semantic model and lays them out, so that it can be imported and edited.
+ */
+export async function ensureDiagramInterchange(
+  xml: string,
+  options: HeadlessLayoutOptions = {}
+): Promise<{ xml: string; generated: boolean }> {
+  const moddle = createModdle();
+  const { definitions } = await parseDefinitions(moddle, xml);
+  if (hasDiagram(definitions) || !createDiagramInterchange(definitions, moddle, options.constants?.orientation)) {
+    return { xml, generated: false };
+  }
+  layoutDefinitions(moddle, definitions, options);
+
+  const result = await moddle.toXML(definitions, { format: true });
+  return { xml: result.xml, generated: true };
+}
+
+/** Reports the collisions of a BPMN document's current layout without changing it. */
+export async function checkBpmnXml(xml: string, options: HeadlessLayoutOptions = {}): Promise<HeadlessCheckResult> {
+  const { definitions, warnings } = await parseDefinitions(createModdle(), xml);
+  const model = createHeadlessModel(definitions);
+  const conflicts = new BpmnLayoutEngine().detectCollisions(model.context, resolveConstants(model, options));
+  return { conflicts, warnings };
+}
+
+function layoutDefinitions(
+  moddle: BpmnModdle,
+  definitions: ModdleElement,
+  options: HeadlessLayoutOptions
+): { ordering: OrderingResult; conflicts: CollisionConflict[] } {
+  const model = createHeadlessModel(definitions);
+  const constants = resolveConstants(model, options);
+  const engine = new BpmnLayoutEngine();
+  const ordering = engine.autoLayout(model.context, constants);
+  writeDi(model, moddle);
+  return { ordering, conflicts: engine.detectCollisions(model.context, constants) };
+}
+
+function hasDiagram(definitions: ModdleElement): boolean {
+  return ((definitions.get('diagrams') as ModdleElement[] | undefined) ?? []).some((diagram) => diagram.get('plane'));
+}
+
+function createModdle(): BpmnModdle {
+  return new BpmnModdle({ layout: layoutModdleDescriptor });
+}
+
+async function parseDefinitions(
+  moddle: BpmnModdle,
+  xml: string
+): Promise<{ definitions: ModdleElement; warnings: string[] }> {
+  const { rootElement, warnings } = await moddle.fromXML(xml, 'bpmn:Definitions');
+  return { definitions: rootElement, warnings: warnings.map((w) => w.message) };
+}
+
+function resolveConstants(model: HeadlessModel, options: HeadlessLayoutOptions): LayoutConstants {
+  return { ...toLayoutConstants(readLayoutSettings(model.root)), ...options.constants };
+}
+
+/**
+ * Builds the element tree bpmn-js would create on import for the first diagram plane: parents
+ * follow the semantic nesting (pool → lane → child lane, pool → flow node, subprocess → flow node)
+ * and boundary events reference their host.
+ */
+function createHeadlessModel(definitions: ModdleElement): HeadlessModel {
+  const diagram = ((definitions.get('diagrams') as ModdleElement[] | undefined) ?? []).find((d) => d.get('plane'));
+  const plane = diagram?.get('plane') as ModdleElement | undefined;
+  const rootBo = plane?.get('bpmnElement') as ModdleElement | undefined;
+  if (!plane || !rootBo) throw new Error('The document contains no diagram to lay out');
+
+  const root: HeadlessRoot = { id: rootBo.id ?? '', type: rootBo.$type, businessObject: rootBo, children: [] };
+  const shapes: HeadlessShape[] = [];
+  const connections: HeadlessConnection[] = [];
+  const labels: HeadlessLabel[] = [];
+  const shapesByBo = new Map<ModdleElement, HeadlessShape>();
+  const participantsByProcess = new Map<ModdleElement, HeadlessShape>();
+  const planeElements = (plane.get('planeElement') as ModdleElement[] | undefined) ?? [];
+
+  for (const di of planeElements) {
+    const bo = di.get('bpmnElement') as ModdleElement | undefined;
+    if (!bo || di.$type !== 'bpmndi:BPMNShape') continue;
+    const shape = createShape(bo, di);
+    shapes.push(shape);
+    shapesByBo.set(bo, shape);
+    if (bo.$type === 'bpmn:Participant' && bo.get('processRef')) {
+      participantsByProcess.set(bo.get('processRef') as ModdleElement, shape);
+    }
+  }
+
+  const findParent = (bo: ModdleElement): HeadlessShape | HeadlessRoot => {
+    let semanticParent = bo.$type === 'bpmn:Lane' ? bo.$parent?.$parent : bo.$parent;
+    for (; semanticParent; semanticParent = semanticParent.$parent) {
+      const parent = shapesByBo.get(semanticParent) ?? participantsByProcess.get(semanticParent);
+      if (parent) return parent;
+    }
+    return root;
+  };
+
+  for (const shape of shapes) {
+    const bo = shape.businessObject;
+    const host = bo.$type === 'bpmn:BoundaryEvent' ? shapesByBo.get(bo.get('attachedToRef') as ModdleElement) : undefined;
+    if (host) {
+      shape.host = host;
+      host.attachers.push(shape);
+    }
+    shape.parent = host?.parent ?? findParent(bo);
+    shape.parent.children.push(shape);
+    labels.push(...createLabels(shape));
+  }
+
+  for (const di of planeElements) {
+    const bo = di.get('bpmnElement') as ModdleElement | undefined;
+    if (!bo || di.$type !== 'bpmndi:BPMNEdge') continue;
+    const [sourceBo, targetBo] = getConnectionEnds(bo);
+    const source = sourceBo && shapesByBo.get(sourceBo);
+    const target = targetBo && shapesByBo.get(targetBo);
+    if (!source || !target) continue;
+
+    const connection: HeadlessConnection = {
+      id: bo.id ?? '',
+      type: bo.$type,
+      businessObject: bo,
+      di,
+      parent: findParent(bo),
+      source,
+      target,
+      waypoints: ((di.get('waypoint') as ModdleElement[] | undefined) ?? []).map(toPointValue),
+      labels: []
+    };
+    connection.labels = createLabels(connection);
+    source.outgoing.push(connection);
+    target.incoming.push(connection);
+    connections.push(connection);
+    labels.push(...connection.labels);
+  }
+
+  const registry = [root, ...shapes, ...connections, ...labels] as BpmnElementLike[];
+  const context: BpmnLayoutContext = {
+    elementRegistry: { filter: (predicate) => registry.filter(predicate) },
+    modeling: createHeadlessModeling(connections),
+    canvas: { getRootElement: () => root }
+  };
+  return { root, shapes, connections, labels, context };
+}
+
+function createShape(bo: ModdleElement, di: ModdleElement): HeadlessShape {
+  const bounds = di.get('bounds') as ModdleElement | undefined;
+  const isSubProcess = bo.$type.endsWith('SubProcess') || bo.$type === 'bpmn:Transaction';
+  return {
+    id: bo.id ?? '',
+    type: bo.$type,
+    businessObject: bo,
+    di,
+    ...(bounds ? toBoundsValue(bounds) : { x: 0, y: 0, width: 0, height: 0 }),
+    collapsed: isSubProcess ? di.get('isExpanded') !== true : undefined,
+    children: [],
+    attachers: [],
+    outgoing: [],
+    incoming: [],
+    labels: []
+  };
+}
+
+function createLabels(owner: { id: string; di: ModdleElement; labels: HeadlessLabel[] }): HeadlessLabel[] {
+  const label = owner.di.get('label') as ModdleElement | undefined;
+  const bounds = label?.get('bounds') as ModdleElement | undefined;
+  if (!label || !bounds) return [];
+  owner.labels = [{ id: `${owner.id}_label`, type: 'label', labelTarget: owner, di: label, ...toBoundsValue(bounds) }];
+  return owner.labels;
+}
+
+/** Data associations reference their activity through the semantic parent rather than a ref. */
+function getConnectionEnds(bo: ModdleElement): [ModdleElement | undefined, ModdleElement | undefined] {
+  const first = (ref: unknown) => (Array.isArray(ref) ? ref[0] : ref) as ModdleElement | undefined;
+  if (bo.$type === DATA_INPUT_ASSOCIATION) return [first(bo.get('sourceRef')), bo.$parent];
+  if (bo.$type === DATA_OUTPUT_ASSOCIATION) return [bo.$parent, first(bo.get('targetRef'))];
+  return [first(bo.get('sourceRef')), first(bo.get('targetRef'))];
+}
+
+/**
+ * The subset of bpmn-js modeling the layout engine calls. Like bpmn-js, moving a shape moves its
+ * children, attached boundary events and labels, plus the connections lying entirely inside the
+ * moved set; connections leaving it are rerouted by the engine afterwards. Resizing a shape keeps
+ * its boundary events on its border.
+ */
+function createHeadlessModeling(connections: HeadlessConnection[]): BpmnLayoutContext['modeling'] {
+  return {
+    moveElements: (elements, delta) => {
+      const moved = new Set<HeadlessShape>();
+      const collect = (shape: HeadlessShape) => {
+        if (moved.has(shape)) return;
+        moved.add(shape);
+        shape.children.forEach(collect);
+        shape.attachers.forEach(collect);
+      };
+      (elements as HeadlessShape[]).forEach(collect);
+
+      moved.forEach((shape) => {
+        translate(shape, delta);
+        shape.labels.forEach((label) => translate(label, delta));
+      });
+      for (const connection of connections) {
+        if (!moved.has(connection.source) || !moved.has(connection.target)) continue;
+        connection.waypoints.forEach((point) => translate(point, delta));
+        connection.labels.forEach((label) => translate(label, delta));
+      }
+    },
+    resizeShape: (shape, bounds) => {
+      const host = shape as HeadlessShape;
+      const oldBounds = { x: host.x, y: host.y, width: host.width, height: host.height };
+      Object.assign(host, bounds);
+      for (const attacher of host.attachers) {
+        const delta = getAttachDelta(attacher, oldBounds, host);
+        translate(attacher, delta);
+        attacher.labels.forEach((label) => translate(label, delta));
+      }
+    },
+    // Only labels are moved on their own, and nothing is attached to them
+    moveShape: (shape, delta) => {
+      translate(shape as HeadlessLabel, delta);
+    },
+    updateWaypoints: (connection, waypoints) => {
+      const headless = connection as HeadlessConnection;
+      const before = getMidpoint(headless.waypoints);
+      headless.waypoints = waypoints.map((p) => ({ x: p.x, y: p.y }));
+      const after = getMidpoint(headless.waypoints);
+      if (before && after) {
+        const delta = { x: after.x - before.x, y: after.y - before.y };
+        headless.labels.forEach((label) => translate(label, delta));
+      }
+    }
+  };
+}
+
+function writeDi(model: HeadlessModel, moddle: BpmnModdle): void {
+  const writeBounds = (element: { di: ModdleElement } & Bounds) => {
+    const bounds = element.di.get('bounds') as ModdleElement | undefined;
+    if (!bounds) return;
+    bounds.set('x', Math.round(element.x));
+    bounds.set('y', Math.round(element.y));
+    bounds.set('width', Math.round(element.width));
+    bounds.set('height', Math.round(element.height));
+  };
+
+  model.shapes.forEach(writeBounds);
+  model.labels.forEach(writeBounds);
+  for (const connection of model.connections) {
+    connection.di.set(
+      'waypoint',
+      connection.waypoints.map((p) => moddle.create('dc:Point', { x: Math.round(p.x), y: Math.round(p.y) }))
+    );
+  }
+}
+
+/**
+ * How far a boundary event moves when its host is resized, following diagram-js AttachSupport: an
+ * event on one side moves with that side, events on a corner (or when the host moved as a whole)
+ * keep their relative position.
+ */
+function getAttachDelta(attacher: Bounds, oldBounds: Bounds, newBounds: Bounds): Point {
+  const center = { x: attacher.x + attacher.width / 2, y: attacher.y + attacher.height / 2 };
+  const [oldRight, oldBottom] = [oldBounds.x + oldBounds.width, oldBounds.y + oldBounds.height];
+  const [newRight, newBottom] = [newBounds.x + newBounds.width, newBounds.y + newBounds.height];
+  const movedX = oldBounds.x !== newBounds.x && oldRight !== newRight;
+  const movedY = oldBounds.y !== newBounds.y && oldBottom !== newBottom;
+  const vertical = center.y <= oldBounds.y ? 'top' : center.y >= oldBottom ? 'bottom' : undefined;
+  const horizontal = center.x <= oldBounds.x ? 'left' : center.x >= oldRight ? 'right' : undefined;
+
+  if (!movedX && !movedY && !(vertical && horizontal)) {
+    const sticky =
+      vertical === 'top'
+        ? { x: 0, y: newBounds.y - oldBounds.y }
+        : vertical === 'bottom'
+          ? { x: 0, y: newBottom - oldBottom }
+          : horizontal === 'left'
+            ? { x: newBounds.x - oldBounds.x, y: 0 }
+            : horizontal === 'right'
+              ? { x: newRight - oldRight, y: 0 }
+              : undefined;
+    // Stick to the side only while the event stays beside the host
+    const x = center.x + (sticky?.x ?? 0);
+    const y = center.y + (sticky?.y ?? 0);
+    if (sticky && (vertical ? x > newBounds.x && x < newRight : y > newBounds.y && y < newBottom)) {
+      return sticky;
+    }
+  }
+
+  const scaleX = oldBounds.width > 0 ? newBounds.width / oldBounds.width : 1;
+  const scaleY = oldBounds.height > 0 ? newBounds.height / oldBounds.height : 1;
+  const oldCenter = { x: oldBounds.x + oldBounds.width / 2, y: oldBounds.y + oldBounds.height / 2 };
+  const newCenter = { x: newBounds.x + newBounds.width / 2, y: newBounds.y + newBounds.height / 2 };
+  return {
+    x: Math.round(newCenter.x + (center.x - oldCenter.x) * scaleX - center.x),
+    y: Math.round(newCenter.y + (center.y - oldCenter.y) * scaleY - center.y)
+  };
+}
+
+function translate(target: Point, delta: Point): void {
+  target.x += delta.x;
+  target.y += delta.y;
+}
+
+/** The point halfway along the path, which bpmn-js also uses to anchor connection labels. */
+function getMidpoint(waypoints: Point[]): Point | undefined {
+  if (waypoints.length < 2) return waypoints[0];
+  const lengths = waypoints.slice(1).map((p, i) => Math.hypot(p.x - waypoints[i].x, p.y - waypoints[i].y));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      const a = waypoints[i];
+      const b = waypoints[i + 1];
+      return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    }
+    remaining -= lengths[i];
+  }
+  return waypoints[waypoints.length - 1];
+}
+
+function toPointValue(point: ModdleElement): Point {
+  return { x: point.get('x') as number, y: point.get('y') as number };
+}
+
+function toBoundsValue(bounds: ModdleElement): Bounds {
+  return {
+    x: bounds.get('x') as number,
+    y: bounds.get('y') as number,
+    width: bounds.get('width') as number,
+    height: bounds.get('height') as number
+  };
+}
@@ -0,0 +1,321 @@
+import { LAYOUT_COMMANDS, type InsertNodeCommandContext } from './layout.commands';
+import { buildGraphFromElements, addBoundaryEdges, assignRanks } from './layout.graph';
+import { findNextFreeSlot, type PlacedNode } from './layout.placement';
+import { readLayoutSettings, toLayoutConstants } from './layout.settings';
+import type { Bounds } from './layout.types';
+
+interface InsertElement {
+  id: string;
+  type: string;
+  parent?: InsertElement;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  waypoints?: unknown[];
+  host?: InsertElement;
+  outgoing?: Array<{ target: { id: string } }>;
+  businessObject?: { flowNodeRef?: unknown[] };
+}
+
+interface ElementRegistryLike {
+  filter: (predicate: (element: InsertElement) => boolean) => InsertElement[];
+}
+
+interface ElementFactoryLike {
+  createShape: (attrs: { type: string }) => InsertElement;
+}
+
+interface CommandStackLike {
+  execute: (command: string, context: InsertNodeCommandContext) => void;
+}
+
+interface SelectionLike {
+  get: () => InsertElement[];
+  select: (element: InsertElement) => void;
+}
+
+interface CanvasLike {
+  getRootElement: () => InsertElement & { businessObject?: unknown };
+  viewbox: () => Bounds;
+}
+
+interface CreateLike {
+  start: (event: Event, shape: InsertElement, context?: { source: InsertElement }) => void;
+}
+
+interface PaletteLike {
+  registerProvider: (priority: number, provider: LaneInsertPaletteProvider) => void;
+}
+
+interface ContextPadLike {
+  registerProvider: (priority: number, provider: LaneInsertContextPadProvider) => void;
+}
+
+type InsertEntry = {
+  group: string;
+  className: string;
+  title: string;
+  action: { click: (event: Event) => void; dragstart: (event: Event) => void };
+};
+type EntriesUpdater = (entries: Record<string, unknown>) => Record<string, unknown>;
+
+const CONTAINER_TYPES = ['bpmn:Lane', 'bpmn:Participant'];
+
+/** The element types offered by the palette and context pad, keyed by the bpmn-js entries they replace. */
+const INSERT_TYPES = [
+  { type: 'bpmn:Task', palette: 'create.task', append: 'append.append-task', group: 'activity', className: 'bpmn-icon-task', label: 'task' },
+  { type: 'bpmn:ExclusiveGateway', palette: 'create.exclusive-gateway', append: 'append.gateway', group: 'gateway', className: 'bpmn-icon-gateway-none', label: 'gateway' },
+  { type: 'bpmn:IntermediateThrowEvent', palette: 'create.intermediate-event', append: 'append.intermediate-event', group: 'event', className: 'bpmn-icon-intermediate-event-none', label: 'intermediate event' }
+];
+
+function isFlowNode(element: InsertElement): boolean {
+  return (
+    !element.waypoints &&
+    element.type !== 'label' &&
+    element.type !== 'bpmn:Process' &&
+    element.type !== 'bpmn:Collaboration' &&
+    !CONTAINER_TYPES.includes(element.type)
+  );
+}
+
+function containsCenter(container: InsertElement, element: InsertElement): boolean {
+  const cx = (element.x ?? 0) + (element.width ?? 0) / 2;
+  const cy = (element.y ?? 0) + (element.height ?? 0) / 2;
+  const x = container.x ?? 0;
+  const y = container.y ?? 0;
+  return cx >= x && cx <= x + (container.width ?? 0) && cy >= y && cy <= y + (container.height ?? 0);
+}
+
+/** Dragging drops the element into the lane under the cursor, connected from `source` if given. */
+function startCreate(
+  create: CreateLike,
+  elementFactory: ElementFactoryLike,
+  event: Event,
+  type: string,
+  source?: InsertElement
+): void {
+  create.start(event, elementFactory.createShape({ type }), source ? { source } : undefined);
+}
+
+/**
+ * Inserts new flow nodes into a lane at the next free cell of the layout rank grid, optionally
+ * connected from a source node, instead of at a fixed offset. A lane without a free cell grows.
+ */
+export class LaneInsert {
+  static $inject = ['elementRegistry', 'elementFactory', 'commandStack', 'selection', 'canvas'];
+
+  constructor(
+    private elementRegistry: ElementRegistryLike,
+    private elementFactory: ElementFactoryLike,
+    private commandStack: CommandStackLike,
+    private selection: SelectionLike,
+    private canvas: CanvasLike
+  ) {}
+
+  /**
+   * Creates an element of `type` in `container` (by default the selected lane or the lane of the
+   * selected element). With a `source` the element goes one rank after it and is connected from it.
+   */
+  insert(type: string, options: { container?: InsertElement; source?: InsertElement } = {}): InsertElement {
+    const source = options.source;
+    const container = options.container ?? (source ? this.getLaneOf(source) : this.getTargetContainer());
+    const pool = this.getPool(container);
+    const constants = toLayoutConstants(readLayoutSettings(this.canvas.getRootElement()));
+
+    const nodes = this.getRankedNodes(pool);
+    const laneNodes = container === pool ? nodes : nodes.filter((n) => this.getLaneOf(n.element) === container);
+    const sourceNode = source && nodes.find((n) => n.id === (source.host ?? source).id);
+    const rank = sourceNode ? sourceNode.rank + 1 : Math.max(-1, ...laneNodes.map((n) => n.rank)) + 1;
+
+    const shape = this.elementFactory.createShape({ type });
+    const bounds = findNextFreeSlot(
+      this.getContainerBounds(container, nodes),
+      nodes,
+      rank,
+      { width: shape.width ?? 0, height: shape.height ?? 0 },
+      constants
+    );
+    // Creating the shape and growing a full lane for it is one undo step
+    this.commandStack.execute(LAYOUT_COMMANDS.insertNode, {
+      shape,
+      position: { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 },
+      containerId: container.id,
+      sourceId: source?.id
+    });
+    this.selection.select(shape);
+    return shape;
+  }
+
+  /** The single selected flow node, which new elements get connected from. */
+  getSelectedSource(): InsertElement | undefined {
+    const selected = this.selection.get();
+    return selected.length === 1 && isFlowNode(selected[0]) ? selected[0] : undefined;
+  }
+
+  private getTargetContainer(): InsertElement {
+    const selected = this.selection.get()[0];
+    if (selected && CONTAINER_TYPES.includes(selected.type)) return selected;
+    if (selected && isFlowNode(selected)) return this.getLaneOf(selected);
+    return this.elementRegistry.filter((e) => e.type === 'bpmn:Participant')[0] ?? this.canvas.getRootElement();
+  }
+
+  /** The innermost lane listing the element in its `flowNodeRef`, or containing it, else its parent. */
+  private getLaneOf(element: InsertElement): InsertElement {
+    const node = element.host ?? element;
+    const leafLanes = this.elementRegistry.filter(
+      (e) => e.type === 'bpmn:Lane' && !this.elementRegistry.filter((c) => c.type === 'bpmn:Lane' && c.parent === e).length
+    );
+    const bo = (node as { businessObject?: unknown }).businessObject;
+    return (
+      leafLanes.find((lane) => lane.businessObject?.flowNodeRef?.includes(bo)) ??
+      leafLanes.find((lane) => this.getPool(lane) === node.parent && containsCenter(lane, node)) ??
+      node.parent ??
+      this.canvas.getRootElement()
+    );
+  }
+
+  private getPool(container: InsertElement): InsertElement {
+    let current: InsertElement | undefined = container;
+    while (current?.type === 'bpmn:Lane') current = current.parent;
+    return current ?? this.canvas.getRootElement();
+  }
+
+  /** The pool's nodes ranked as the auto layout would rank them. */
+  private getRankedNodes(pool: InsertElement): Array<PlacedNode & { element: InsertElement }> {
+    const children = this.elementRegistry.filter(
+      (e) => e.parent === pool && isFlowNode(e) && e.type !== 'bpmn:BoundaryEvent' && e.width != null
+    );
+    const { nodeMap, adjacency, inDegree } = buildGraphFromElements(
+      children as Array<InsertElement & { parent: InsertElement; width: number; height: number }>
+    );
+    const boundaryEvents = this.elementRegistry.filter((e) => e.type === 'bpmn:BoundaryEvent' && e.host != null);
+    addBoundaryEdges(boundaryEvents, nodeMap, adjacency, inDegree);
+    assignRanks(nodeMap, adjacency);
+
+    return children.map((element) => ({
+      id: element.id,
+      rank: nodeMap.get(element.id)!.rank,
+      x: element.x ?? 0,
+      y: element.y ?? 0,
+      width: element.width ?? 0,
+      height: element.height ?? 0,
+      element
+    }));
+  }
+
+  /** Lanes and pools have bounds; for a bare process the nodes' extent (or the view) stands in. */
+  private getContainerBounds(container: InsertElement, nodes: PlacedNode[]): Bounds {
+    if (container.width != null && container.height != null) {
+      return { x: container.x ?? 0, y: container.y ?? 0, width: container.width, height: container.height };
+    }
+    if (nodes.length === 0) return this.canvas.viewbox();
+    const x = Math.min(...nodes.map((n) => n.x));
+    const y = Math.min(...nodes.map((n) => n.y));
+    return {
+      x,
+      y,
+      width: Math.max(...nodes.map((n) => n.x + n.width)) - x,
+      height: Math.max(...nodes.map((n) => n.y + n.height)) - y
+    };
+  }
+}
+
+/** Replaces the palette's task, gateway and intermediate event tools with lane-aware ones. */
+export class LaneInsertPaletteProvider {
+  static $inject = ['palette', 'create', 'elementFactory', 'laneInsert'];
+
+  constructor(
+    palette: PaletteLike,
+    private create: CreateLike,
+    private elementFactory: ElementFactoryLike,
+    private laneInsert: LaneInsert
+  ) {
+    // Below the bpmn-js palette's priority so that its entries exist when these are applied
+    palette.registerProvider(500, this);
+  }
+
+  getPaletteEntries(): EntriesUpdater {
+    return (entries) => {
+      const updated = { ...entries };
+      for (const item of INSERT_TYPES) {
+        updated[item.palette] = {
+          group: item.group,
+          className: item.className,
+          title: `Add ${item.label} to the selected lane`,
+          action: {
+            click: () => this.laneInsert.insert(item.type, { source: this.laneInsert.getSelectedSource() }),
+            dragstart: (event: Event) =>
+              startCreate(this.create, this.elementFactory, event, item.type, this.laneInsert.getSelectedSource())
+          }
+        } satisfies InsertEntry;
+      }
+      return updated;
+    };
+  }
+}
+
+/**
+ * Makes the context pad's append actions place the new node in the lane grid, and adds insert
+ * actions to lanes and pools.
+ */
+export class LaneInsertContextPadProvider {
+  static $inject = ['contextPad', 'create', 'elementFactory', 'laneInsert'];
+
+  constructor(
+    contextPad: ContextPadLike,
+    private create: CreateLike,
+    private elementFactory: ElementFactoryLike,
+    private laneInsert: LaneInsert
+  ) {
+    contextPad.registerProvider(400, this);
+  }
+
+  getContextPadEntries(element: InsertElement): EntriesUpdater {
+    return (entries) => {
+      const updated = { ...entries };
+      for (const item of INSERT_TYPES) {
+        if (CONTAINER_TYPES.includes(element.type)) {
+          updated[`lane-insert.${item.label.replace(' ', '-')}`] = this.createEntry(
+            item,
+            `Add ${item.label} to this lane`,
+            () => this.laneInsert.insert(item.type, { container: element })
+          );
+        } else if (item.append in entries) {
+          // Keep bpmn-js' decision on which elements may be appended to
+          updated[item.append] = this.createEntry(
+            item,
+            `Append ${item.label}`,
+            () => this.laneInsert.insert(item.type, { source: element }),
+            element
+          );
+        }
+      }
+      return updated;
+    };
+  }
+
+  private createEntry(
+    item: (typeof INSERT_TYPES)[number],
+    title: string,
+    click: () => void,
+    source?: InsertElement
+  ): InsertEntry {
+    return {
+      group: 'model',
+      className: item.className,
+      title,
+      action: {
+        click,
+        dragstart: (event: Event) => startCreate(this.create, this.elementFactory, event, item.type, source)
+      }
+    };
+  }
+}
+
+export const LaneInsertModule = {
+  __init__: ['laneInsertPaletteProvider', 'laneInsertContextPadProvider'],
+  laneInsert: ['type', LaneInsert],
+  laneInsertPaletteProvider: ['type', LaneInsertPaletteProvider],
+  laneInsertContextPadProvider: ['type', LaneInsertContextPadProvider]
+};
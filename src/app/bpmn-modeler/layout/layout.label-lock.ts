@@ -0,0 +1,44 @@
+import { isLabelLocked } from './layout.constraints';
+
+interface LabelElement {
+  id: string;
+  type: string;
+  labelTarget?: LabelElement;
+  source?: LabelElement;
+  target?: LabelElement;
+  businessObject?: unknown;
+}
+
+interface EventBusLike {
+  on: (event: string, fn: (event: { context: { shapes?: LabelElement[] } }) => void) => void;
+}
+
+interface ModelingLike {
+  updateProperties: (element: LabelElement, properties: Record<string, unknown>) => void;
+}
+
+/**
+ * Locks the label of a sequence flow once the user drags it, so automatic label placement keeps the
+ * position. Labels carried along with their whole flow are not locked. The flag is set within the
+ * move command and is undone with it.
+ */
+export class LabelLockBehavior {
+  static $inject = ['eventBus', 'modeling'];
+
+  constructor(eventBus: EventBusLike, modeling: ModelingLike) {
+    eventBus.on('commandStack.elements.move.postExecute', ({ context }) => {
+      const shapes = context.shapes ?? [];
+      for (const shape of shapes) {
+        const flow = shape.type === 'label' ? shape.labelTarget : undefined;
+        if (flow?.type !== 'bpmn:SequenceFlow' || isLabelLocked(flow.businessObject)) continue;
+        if (flow.source && flow.target && shapes.includes(flow.source) && shapes.includes(flow.target)) continue;
+        modeling.updateProperties(flow, { 'layout:labelLocked': true });
+      }
+    });
+  }
+}
+
+export const LabelLockModule = {
+  __init__: ['labelLockBehavior'],
+  labelLockBehavior: ['type', LabelLockBehavior]
+};
@@ -0,0 +1,70 @@
+import type { Bounds, Point, Segment } from './layout.types';
+import { checkBoundsOverlap, segmentIntersectsBounds } from './layout.collision';
+
+/** Space between a label and the segment it is placed beside. */
+const LABEL_GAP = 5;
+/** Distance between two label positions tried along the path. */
+const LABEL_STEP = 10;
+/** Cost of each shape, label or edge a candidate position covers; outweighs any distance. */
+const OVERLAP_COST = 10000;
+
+export interface LabelObstacles {
+  shapes: Bounds[];
+  labels: Bounds[];
+  /** All edges' segments, the label's own included so it does not end up across a bend. */
+  segments: Segment[];
+}
+
+/**
+ * Bounds for an edge label beside the first half of its path: above or below a horizontal segment,
+ * right or left of a vertical one, as close to the source as possible without covering shapes,
+ * other labels or edges. When every position covers something, the one covering least wins.
+ */
+export function computeEdgeLabelBounds(label: Bounds, waypoints: Point[], obstacles: LabelObstacles): Bounds {
+  const lengths = waypoints.slice(1).map((p, i) => Math.hypot(p.x - waypoints[i].x, p.y - waypoints[i].y));
+  const total = lengths.reduce((sum, l) => sum + l, 0);
+  if (total === 0) return label;
+
+  let best: { bounds: Bounds; cost: number } | undefined;
+  for (let distance = LABEL_STEP; distance <= Math.max(total / 2, LABEL_STEP); distance += LABEL_STEP) {
+    let index = 0;
+    let remaining = Math.min(distance, total);
+    while (index < lengths.length - 1 && remaining > lengths[index]) remaining -= lengths[index++];
+    const a = waypoints[index];
+    const b = waypoints[index + 1];
+    const t = lengths[index] > 0 ? remaining / lengths[index] : 0;
+    const point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+
+    for (const bounds of getCandidates(label, point, b.x - a.x, b.y - a.y)) {
+      const cost = distance + OVERLAP_COST * countOverlaps(bounds, obstacles);
+      if (!best || cost < best.cost) best = { bounds, cost };
+    }
+    if (best && best.cost < OVERLAP_COST) break;
+  }
+  return best?.bounds ?? label;
+}
+
+/** Label positions at `point`, extending in the segment's direction; the conventional side first. */
+function getCandidates(label: Bounds, point: Point, dx: number, dy: number): Bounds[] {
+  const { width, height } = label;
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    const x = dx >= 0 ? point.x : point.x - width;
+    return [
+      { x, y: point.y - LABEL_GAP - height, width, height },
+      { x, y: point.y + LABEL_GAP, width, height }
+    ];
+  }
+  const y = dy >= 0 ? point.y : point.y - height;
+  return [
+    { x: point.x + LABEL_GAP, y, width, height },
+    { x: point.x - LABEL_GAP - width, y, width, height }
+  ];
+}
+
+function countOverlaps(bounds: Bounds, obstacles: LabelObstacles): number {
+  return (
+    obstacles.shapes.filter((shape) => checkBoundsOverlap(bounds, shape, 0)).length +
+    obstacles.labels.filter((other) => checkBoundsOverlap(bounds, other, 0)).length +
+    obstacles.segments.filter((segment) => segmentIntersectsBounds(segment, bounds, 0)).length
+  );
+}
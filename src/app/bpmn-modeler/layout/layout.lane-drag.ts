@@ -0,0 +1,96 @@
+import { LAYOUT_COMMANDS, type MoveLaneCommandContext } from './layout.commands';
+import { readLayoutSettings, toLayoutConstants } from './layout.settings';
+import { LAYOUT_AXES, type Point } from './layout.types';
+
+interface DragElement {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  parent?: DragElement;
+  children?: DragElement[];
+}
+
+interface MoveContext {
+  shapes?: DragElement[];
+  target?: DragElement | null;
+  delta?: Point;
+  canExecute?: unknown;
+}
+
+interface EventBusLike {
+  on: (event: string, priority: number, fn: (event: { context: MoveContext }) => unknown) => void;
+}
+
+interface CommandStackLike {
+  execute: (command: string, context: MoveLaneCommandContext) => void;
+}
+
+interface CanvasLike {
+  getRootElement: () => { businessObject?: unknown };
+}
+
+/** Above the bpmn-js rules and move handling, which refuse to move lanes. */
+const LANE_DRAG_PRIORITY = 1500;
+
+/**
+ * Lets lanes be dragged within their pool: dropping one reorders it among its sibling lanes (by where
+ * its centre lands) through the move-lane command instead of moving the lane shape.
+ */
+export class LaneDragReorder {
+  static $inject = ['eventBus', 'commandStack', 'canvas'];
+
+  constructor(
+    eventBus: EventBusLike,
+    private commandStack: CommandStackLike,
+    private canvas: CanvasLike
+  ) {
+    eventBus.on('commandStack.elements.move.canExecute', LANE_DRAG_PRIORITY, ({ context }) => {
+      const lane = getDraggedLane(context);
+      if (!lane) return undefined;
+      return !context.target || getPool(context.target) === getPool(lane);
+    });
+
+    eventBus.on('shape.move.end', LANE_DRAG_PRIORITY, ({ context }) => {
+      const lane = getDraggedLane(context);
+      if (!lane) return undefined;
+      if (context.canExecute && context.delta) {
+        this.commandStack.execute(LAYOUT_COMMANDS.moveLane, {
+          laneId: lane.id,
+          index: this.getDropIndex(lane, context.delta)
+        });
+      }
+      return false;
+    });
+  }
+
+  private getDropIndex(lane: DragElement, delta: Point): number {
+    const { cross, crossSize } = LAYOUT_AXES[toLayoutConstants(readLayoutSettings(this.canvas.getRootElement())).orientation];
+    const center = (el: DragElement) => el[cross] + el[crossSize] / 2;
+    const dropped = center(lane) + delta[cross];
+    const siblings = getSiblingLanes(lane);
+    return siblings.filter((sibling) => center(sibling) < dropped).length;
+  }
+}
+
+function getDraggedLane(context: MoveContext): DragElement | undefined {
+  const shapes = context.shapes ?? [];
+  return shapes.length === 1 && shapes[0].type === 'bpmn:Lane' ? shapes[0] : undefined;
+}
+
+function getPool(element: DragElement): DragElement {
+  let current = element;
+  while (current.type === 'bpmn:Lane' && current.parent) current = current.parent;
+  return current.type === 'bpmn:Participant' || !current.parent ? current : getPool(current.parent);
+}
+
+function getSiblingLanes(lane: DragElement): DragElement[] {
+  return (lane.parent?.children ?? []).filter((child) => child.type === 'bpmn:Lane' && child !== lane);
+}
+
+export const LaneDragModule = {
+  __init__: ['laneDragReorder'],
+  laneDragReorder: ['type', LaneDragReorder]
+};
@@ -0,0 +1,347 @@
+import { buildGraphFromElements, addBoundaryEdges, assignRanks } from './layout.graph';
+import { buildLaneData, computeLaneHeights, toBounds, toPoint } from './layout.geometry';
+import { readLayoutConstraints } from './layout.constraints';
+import { readLayoutSettings, toLayoutConstants } from './layout.settings';
+import { LAYOUT_AXES, type Bounds, type LayoutConstants, type Point } from './layout.types';
+import type {
+  AddLaneCommandContext,
+  MoveLaneCommandContext,
+  SplitLaneCommandContext,
+  MergeLanesCommandContext,
+  InsertNodeCommandContext
+} from './layout.commands';
+
+interface LaneElement extends Bounds {
+  id: string;
+  type: string;
+  parent?: LaneElement;
+  host?: LaneElement;
+  waypoints?: unknown[];
+  hidden?: boolean;
+  outgoing?: Array<{ target: { id: string } }>;
+  businessObject?: { flowNodeRef?: unknown[]; $instanceOf?: (type: string) => boolean };
+}
+
+interface ElementRegistryLike {
+  get: (id: string) => LaneElement | undefined;
+  filter: (predicate: (element: LaneElement) => boolean) => LaneElement[];
+}
+
+interface ModelingLike {
+  moveElements: (elements: LaneElement[], delta: Point) => void;
+  resizeShape: (shape: LaneElement, bounds: Bounds) => void;
+  createShape: (
+    shape: { type: string; isHorizontal?: boolean },
+    position: Point | Bounds,
+    parent: LaneElement
+  ) => LaneElement;
+  appendShape: (source: LaneElement, shape: { type: string }, position: Point, parent: LaneElement) => LaneElement;
+  removeShape: (shape: LaneElement) => void;
+  addLane: (shape: LaneElement, location: 'top' | 'bottom') => LaneElement;
+  updateLaneRefs: (flowNodes: LaneElement[], lanes: LaneElement[]) => void;
+}
+
+interface CanvasLike {
+  getRootElement: () => { businessObject?: unknown };
+}
+
+/** A node of a leaf lane and its distance from the lane's start across the flow. */
+interface LaneEntry {
+  element: LaneElement;
+  offset: number;
+}
+
+type LaneContents = Map<LaneElement, LaneEntry[]>;
+
+interface ReflowOptions {
+  /** Sibling lane order per parent, where it differs from the current positions. */
+  order?: Map<LaneElement, LaneElement[]>;
+  /** Lane sizes across the flow to start from, where they differ from the current ones. */
+  sizes?: Map<LaneElement, number>;
+}
+
+/**
+ * Lane commands work like the layout commands: everything happens in `preExecute`, so undo/redo
+ * reverts the lane change together with the reflow of the pool's lanes and nodes.
+ */
+abstract class LaneCommandHandler<C> {
+  static $inject = ['elementRegistry', 'modeling', 'canvas'];
+
+  constructor(
+    protected elementRegistry: ElementRegistryLike,
+    protected modeling: ModelingLike,
+    private canvas: CanvasLike
+  ) {}
+
+  protected get constants(): LayoutConstants {
+    return toLayoutConstants(readLayoutSettings(this.canvas.getRootElement()));
+  }
+
+  abstract preExecute(context: C): void;
+
+  protected getLane(id: string): LaneElement {
+    const lane = this.elementRegistry.get(id);
+    if (!lane || (lane.type !== 'bpmn:Lane' && lane.type !== 'bpmn:Participant')) {
+      throw new Error(`<${id}> is not a lane`);
+    }
+    return lane;
+  }
+
+  /** The pool (or process) whose lane set contains the lane. */
+  protected getPool(lane: LaneElement): LaneElement {
+    let current = lane;
+    while (current.type === 'bpmn:Lane' && current.parent) current = current.parent;
+    return current;
+  }
+
+  protected getChildLanes(parent: LaneElement): LaneElement[] {
+    const { cross } = LAYOUT_AXES[this.constants.orientation];
+    return this.elementRegistry
+      .filter((e) => e.type === 'bpmn:Lane' && e.parent === parent)
+      .sort((a, b) => a[cross] - b[cross]);
+  }
+
+  protected isLeafLane(lane: LaneElement): boolean {
+    return lane.type === 'bpmn:Lane' && this.getChildLanes(lane).length === 0;
+  }
+
+  /**
+   * Assigns every node of the pool to the leaf lane listing it in its `flowNodeRef`, or else to the
+   * lane nearest to its centre, and records where it sits within that lane.
+   */
+  protected collectContents(pool: LaneElement): LaneContents {
+    const { cross, crossSize } = LAYOUT_AXES[this.constants.orientation];
+    const leaves = this.elementRegistry.filter((e) => this.isLeafLane(e) && this.getPool(e) === pool);
+    const contents: LaneContents = new Map(leaves.map((lane) => [lane, []]));
+    if (leaves.length === 0) return contents;
+
+    const nodes = this.elementRegistry.filter(
+      (e) =>
+        e.parent === pool &&
+        e.type !== 'bpmn:Lane' &&
+        e.type !== 'bpmn:BoundaryEvent' &&
+        e.type !== 'label' &&
+        !e.waypoints &&
+        !e.hidden
+    );
+    for (const node of nodes) {
+      const center = node[cross] + node[crossSize] / 2;
+      const distance = (lane: LaneElement) => Math.max(lane[cross] - center, 0, center - lane[cross] - lane[crossSize]);
+      const lane =
+        leaves.find((l) => l.businessObject?.flowNodeRef?.includes(node.businessObject)) ??
+        leaves.reduce((best, l) => (distance(l) < distance(best) ? l : best));
+      contents.get(lane)!.push({ element: node, offset: Math.max(0, node[cross] - lane[cross]) });
+    }
+    return contents;
+  }
+
+  /**
+   * Restacks the pool's lanes without gaps, grows each leaf lane to what `computeLaneHeights` requires
+   * for its nodes (and to fit them where they sit), moves the nodes along with their lane, sizes the
+   * pool to its lanes and finally updates the lanes' `flowNodeRef`s.
+   */
+  protected reflow(pool: LaneElement, contents: LaneContents, options: ReflowOptions = {}): void {
+    const { flow, cross, flowSize, crossSize } = LAYOUT_AXES[this.constants.orientation];
+    const sizes = this.computeLaneSizes(contents, options.sizes ?? new Map());
+    const lanesOf = (parent: LaneElement) => options.order?.get(parent) ?? this.getChildLanes(parent);
+
+    const place = (parent: LaneElement, start: number): number => {
+      let pos = start;
+      for (const lane of lanesOf(parent)) {
+        const planned = options.sizes?.get(lane) ?? lane[crossSize];
+        const size = lanesOf(lane).length > 0 ? place(lane, pos) : (sizes.get(lane) ?? planned);
+        if (lane[cross] !== pos || lane[crossSize] !== size) {
+          this.modeling.resizeShape(lane, toBounds(flow, lane[flow], pos, lane[flowSize], size));
+        }
+        const entries = contents.get(lane) ?? [];
+        // A lane that had to grow keeps its nodes centred rather than at its start
+        const shift = size > planned ? getCenteringShift(entries, size, crossSize) : 0;
+        for (const { element, offset } of entries) {
+          const delta = pos + offset + shift - element[cross];
+          if (delta !== 0) this.modeling.moveElements([element], toPoint(flow, 0, delta));
+        }
+        pos += size;
+      }
+      return pos - start;
+    };
+
+    const isParticipant = pool.type === 'bpmn:Participant';
+    const start = isParticipant ? pool[cross] : Math.min(...lanesOf(pool).map((lane) => lane[cross]));
+    const total = place(pool, start);
+    if (isParticipant && total > 0 && total !== pool[crossSize]) {
+      this.modeling.resizeShape(pool, toBounds(flow, pool[flow], pool[cross], pool[flowSize], total));
+    }
+
+    const flowNodes = this.elementRegistry.filter(
+      (e) => e.parent === pool && !e.waypoints && e.businessObject?.$instanceOf?.('bpmn:FlowNode') === true
+    );
+    this.modeling.updateLaneRefs(flowNodes, Array.from(contents.keys()));
+  }
+
+  /** Leaf lane sizes: the larger of the layout's lane height and the extent of the nodes kept in place. */
+  private computeLaneSizes(contents: LaneContents, sizes: Map<LaneElement, number>): Map<LaneElement, number> {
+    const constants = this.constants;
+    const { flow, crossSize } = LAYOUT_AXES[constants.orientation];
+    const laneIds = new Map<LaneElement, string>();
+    contents.forEach((entries, lane) => entries.forEach(({ element }) => laneIds.set(element, lane.id)));
+
+    const { nodeMap, adjacency, inDegree } = buildGraphFromElements(
+      Array.from(laneIds.keys()),
+      (el) => laneIds.get(el)!
+    );
+    const boundaryEvents = this.elementRegistry.filter(
+      (e) => e.type === 'bpmn:BoundaryEvent' && e.host != null && nodeMap.has(e.host.id)
+    );
+    addBoundaryEdges(boundaryEvents, nodeMap, adjacency, inDegree);
+    nodeMap.forEach((node) => {
+      node.constraints = readLayoutConstraints((node.element as LaneElement).businessObject);
+    });
+    assignRanks(nodeMap, adjacency);
+
+    const lanes = Array.from(contents.keys());
+    const { laneData, maxGlobalRank } = buildLaneData(
+      lanes.map((lane) => ({
+        id: lane.id,
+        y: 0,
+        height: 0,
+        element: toBounds(flow, 0, 0, 0, sizes.get(lane) ?? lane[crossSize])
+      })),
+      nodeMap
+    );
+    computeLaneHeights(laneData, maxGlobalRank, constants);
+
+    return new Map(
+      lanes.map((lane) => {
+        const extent = Math.max(
+          0,
+          ...contents.get(lane)!.map(({ element, offset }) => offset + element[crossSize] + constants.rowSpacing)
+        );
+        return [lane, Math.max(laneData.get(lane.id)!.height, extent)];
+      })
+    );
+  }
+}
+
+function getCenteringShift(entries: LaneEntry[], size: number, crossSize: 'width' | 'height'): number {
+  if (entries.length === 0) return 0;
+  const start = Math.min(...entries.map(({ offset }) => offset));
+  const end = Math.max(...entries.map(({ element, offset }) => offset + element[crossSize]));
+  return Math.round((size - start - end) / 2);
+}
+
+export class AddLaneHandler extends LaneCommandHandler<AddLaneCommandContext> {
+  preExecute(context: AddLaneCommandContext): void {
+    const target = this.getLane(context.laneId);
+    const lane = this.modeling.addLane(target, context.location === 'before' ? 'top' : 'bottom');
+    context.newLaneId = lane.id;
+    const pool = this.getPool(lane);
+    this.reflow(pool, this.collectContents(pool));
+  }
+}
+
+export class MoveLaneHandler extends LaneCommandHandler<MoveLaneCommandContext> {
+  preExecute(context: MoveLaneCommandContext): void {
+    const lane = this.getLane(context.laneId);
+    const parent = lane.parent;
+    if (lane.type !== 'bpmn:Lane' || !parent) throw new Error(`<${lane.id}> is not a lane`);
+
+    const siblings = this.getChildLanes(parent).filter((l) => l !== lane);
+    siblings.splice(Math.max(0, Math.min(context.index, siblings.length)), 0, lane);
+    const pool = this.getPool(lane);
+    this.reflow(pool, this.collectContents(pool), { order: new Map([[parent, siblings]]) });
+  }
+}
+
+export class SplitLaneHandler extends LaneCommandHandler<SplitLaneCommandContext> {
+  preExecute(context: SplitLaneCommandContext): void {
+    const lane = this.getLane(context.laneId);
+    if (!this.isLeafLane(lane) || !lane.parent) throw new Error(`<${lane.id}> has child lanes`);
+
+    const { orientation } = this.constants;
+    const { flow, cross, flowSize, crossSize } = LAYOUT_AXES[orientation];
+    const size = lane[crossSize];
+    const parts = Math.max(2, Math.floor(context.parts ?? 2));
+    const cuts =
+      parts === 2 && context.offset != null
+        ? [context.offset]
+        : Array.from({ length: parts - 1 }, (_, i) => (size * (i + 1)) / parts);
+    const starts = [0, ...cuts.map((cut) => Math.round(Math.max(1, Math.min(cut, size - 1))))];
+    const pool = this.getPool(lane);
+    const contents = this.collectContents(pool);
+    const entries = contents.get(lane) ?? [];
+
+    const parent = lane.parent;
+    const [first, ...rest] = starts.map((start, i) =>
+      toBounds(flow, lane[flow], lane[cross] + start, lane[flowSize], (starts[i + 1] ?? size) - start)
+    );
+    this.modeling.resizeShape(lane, first);
+    const newLanes = rest.map((bounds) =>
+      this.modeling.createShape({ type: 'bpmn:Lane', isHorizontal: orientation === 'horizontal' }, bounds, parent)
+    );
+    context.newLaneId = newLanes[0].id;
+
+    const partOf = ({ element, offset }: LaneEntry) =>
+      Math.max(0, starts.filter((start) => offset + element[crossSize] / 2 > start).length - 1);
+    [lane, ...newLanes].forEach((partLane, i) => {
+      const part = entries.filter((entry) => partOf(entry) === i);
+      contents.set(partLane, part.map(({ element, offset }) => ({ element, offset: Math.max(0, offset - starts[i]) })));
+    });
+    this.reflow(pool, contents);
+  }
+}
+
+export class MergeLanesHandler extends LaneCommandHandler<MergeLanesCommandContext> {
+  preExecute(context: MergeLanesCommandContext): void {
+    const lane = this.getLane(context.laneId);
+    const other = this.getLane(context.otherLaneId);
+    if (lane === other || lane.parent !== other.parent || !lane.parent) {
+      throw new Error(`<${lane.id}> and <${other.id}> are not sibling lanes`);
+    }
+    if (!this.isLeafLane(lane) || !this.isLeafLane(other)) {
+      throw new Error(`<${lane.id}> and <${other.id}> must not have child lanes`);
+    }
+
+    const { cross, crossSize } = LAYOUT_AXES[this.constants.orientation];
+    const pool = this.getPool(lane);
+    const contents = this.collectContents(pool);
+    const order = this.getChildLanes(lane.parent).filter((l) => l !== other);
+
+    // The merged lane stacks the contents of both lanes in their current order
+    const [first, second] = lane[cross] <= other[cross] ? [lane, other] : [other, lane];
+    const merged = [
+      ...(contents.get(first) ?? []),
+      ...(contents.get(second) ?? []).map(({ element, offset }) => ({ element, offset: offset + first[crossSize] }))
+    ];
+    const size = lane[crossSize] + other[crossSize];
+    contents.set(lane, merged);
+    contents.delete(other);
+
+    this.modeling.removeShape(other);
+    this.reflow(pool, contents, { order: new Map([[lane.parent, order]]), sizes: new Map([[lane, size]]) });
+  }
+}
+
+export class InsertNodeHandler extends LaneCommandHandler<InsertNodeCommandContext> {
+  preExecute(context: InsertNodeCommandContext): void {
+    const container = this.elementRegistry.get(context.containerId);
+    if (!container) throw new Error(`<${context.containerId}> does not exist`);
+    const source = context.sourceId ? this.elementRegistry.get(context.sourceId) : undefined;
+    const created = source
+      ? this.modeling.appendShape(source, context.shape, context.position, container)
+      : this.modeling.createShape(context.shape, context.position, container);
+    if (!this.isLeafLane(container)) return;
+
+    const { cross, crossSize } = LAYOUT_AXES[this.constants.orientation];
+    const offset = created[cross] - container[cross];
+    if (offset >= 0 && offset + created[crossSize] <= container[crossSize]) return;
+
+    // The new node sticks out of its lane, where its centre may already lie in the next one
+    const pool = this.getPool(container);
+    const contents = this.collectContents(pool);
+    contents.forEach((entries, lane) => {
+      contents.set(lane, entries.filter(({ element }) => element !== created));
+    });
+    contents.get(container)!.push({ element: created, offset: Math.max(0, offset) });
+    this.reflow(pool, contents);
+  }
+}
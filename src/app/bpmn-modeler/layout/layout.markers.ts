@@ -0,0 +1,69 @@
+import { readLayoutConstraints } from './layout.constraints';
+
+export const PINNED_MARKER = 'layout-pinned';
+const PIN_OVERLAY = 'layout-pin';
+
+interface MarkedElement {
+  id: string;
+  businessObject?: unknown;
+  waypoints?: unknown[];
+}
+
+interface EventBusLike {
+  on: (event: string, fn: (event: { elements?: MarkedElement[] }) => void) => void;
+}
+
+interface ElementRegistryLike {
+  getAll: () => MarkedElement[];
+  get: (id: string) => MarkedElement | undefined;
+}
+
+interface CanvasLike {
+  addMarker: (element: MarkedElement, marker: string) => void;
+  removeMarker: (element: MarkedElement, marker: string) => void;
+}
+
+interface OverlaysLike {
+  add: (element: MarkedElement, type: string, overlay: { position: { top: number; right: number }; html: string }) => string;
+  remove: (filter: { element: MarkedElement; type: string }) => void;
+}
+
+/** Marks pinned elements on the canvas and keeps the marker in sync with model changes. */
+export class LayoutPinMarkers {
+  static $inject = ['eventBus', 'elementRegistry', 'canvas', 'overlays'];
+
+  constructor(
+    eventBus: EventBusLike,
+    private elementRegistry: ElementRegistryLike,
+    private canvas: CanvasLike,
+    private overlays: OverlaysLike
+  ) {
+    eventBus.on('import.done', () => {
+      for (const element of this.elementRegistry.getAll()) this.update(element);
+    });
+    eventBus.on('elements.changed', (event) => {
+      for (const element of event.elements ?? []) {
+        if (this.elementRegistry.get(element.id)) this.update(element);
+      }
+    });
+  }
+
+  private update(element: MarkedElement): void {
+    if (element.waypoints) return;
+    this.overlays.remove({ element, type: PIN_OVERLAY });
+    if (readLayoutConstraints(element.businessObject)?.pinned) {
+      this.canvas.addMarker(element, PINNED_MARKER);
+      this.overlays.add(element, PIN_OVERLAY, {
+        position: { top: -10, right: 10 },
+        html: '<div class="layout-pin-badge" title="Pinned by layout constraint">📌</div>'
+      });
+    } else {
+      this.canvas.removeMarker(element, PINNED_MARKER);
+    }
+  }
+}
+
+export const LayoutMarkersModule = {
+  __init__: ['layoutPinMarkers'],
+  layoutPinMarkers: ['type', LayoutPinMarkers]
+};
@@ -0,0 +1,91 @@
+import type { Bounds, LayoutOrientation, Point, Segment, ShapeLike } from './layout.types';
+import { DEFAULT_LAYOUT_CONSTANTS, LAYOUT_AXES } from './layout.types';
+import { detectCollisions, detectCrossings, detectShapeOverlaps, extractSegments } from './layout.collision';
+
+export interface LayoutMetrics {
+  edgeCrossings: number;
+  totalEdgeLength: number;
+  bendCount: number;
+  /** Overlapping shapes plus overlapping (or too close) edge segments. */
+  overlapCount: number;
+  /** Width over height of the shapes' bounding box. */
+  aspectRatio: number;
+  /** Share of each lane's area taken by the bounding box of its nodes, averaged over the lanes (0–1). */
+  laneUtilisation: number;
+  /** Sequence flows whose target lies before their source in the flow direction. */
+  flowDirectionViolations: number;
+}
+
+export interface MetricsInput {
+  /** Every routed connection: sequence flows, message flows and associations. */
+  edges: Array<{ id: string; waypoints: Point[] }>;
+  /** Source and target bounds of the sequence flows. */
+  sequenceFlows: Array<{ source: Bounds; target: Bounds }>;
+  shapes: ShapeLike[];
+  lanes: Array<Bounds & { nodes: Bounds[] }>;
+  orientation: LayoutOrientation;
+  collisionThreshold?: number;
+}
+
+/**
+ * Scores a diagram on the criteria the layout optimises for, so two arrangements of the same
+ * diagram (e.g. before and after auto layout) can be compared. Lower is better for every count.
+ */
+export function computeLayoutMetrics(input: MetricsInput): LayoutMetrics {
+  // Repeated waypoints would count as zero-length overlaps
+  const segments: Segment[] = input.edges
+    .flatMap((edge) => extractSegments(edge.id, edge.waypoints))
+    .filter((s) => s.p1.x !== s.p2.x || s.p1.y !== s.p2.y);
+  const { flow, flowSize } = LAYOUT_AXES[input.orientation];
+
+  return {
+    edgeCrossings: detectCrossings(segments).length,
+    totalEdgeLength: Math.round(
+      segments.reduce((sum, s) => sum + Math.hypot(s.p2.x - s.p1.x, s.p2.y - s.p1.y), 0)
+    ),
+    bendCount: input.edges.reduce((sum, edge) => sum + countBends(edge.waypoints), 0),
+    overlapCount:
+      detectShapeOverlaps(input.shapes).length +
+      detectCollisions(segments, input.collisionThreshold ?? DEFAULT_LAYOUT_CONSTANTS.collisionThreshold).length,
+    aspectRatio: getAspectRatio(input.shapes),
+    laneUtilisation: getLaneUtilisation(input.lanes),
+    flowDirectionViolations: input.sequenceFlows.filter(
+      ({ source, target }) => target[flow] + target[flowSize] / 2 < source[flow] + source[flowSize] / 2
+    ).length
+  };
+}
+
+/** Waypoints where the path changes direction; collinear waypoints are not bends. */
+function countBends(waypoints: Point[]): number {
+  let bends = 0;
+  for (let i = 1; i < waypoints.length - 1; i++) {
+    const [a, b, c] = [waypoints[i - 1], waypoints[i], waypoints[i + 1]];
+    if ((b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x) !== 0) bends++;
+  }
+  return bends;
+}
+
+function getAspectRatio(shapes: Bounds[]): number {
+  if (shapes.length === 0) return 0;
+  const box = getBoundingBox(shapes);
+  return box.height > 0 ? box.width / box.height : 0;
+}
+
+function getLaneUtilisation(lanes: Array<Bounds & { nodes: Bounds[] }>): number {
+  const measured = lanes.filter((lane) => lane.width > 0 && lane.height > 0);
+  if (measured.length === 0) return 0;
+  const total = measured.reduce((sum, lane) => {
+    if (lane.nodes.length === 0) return sum;
+    const box = getBoundingBox(lane.nodes);
+    return sum + Math.min(1, (box.width * box.height) / (lane.width * lane.height));
+  }, 0);
+  return total / measured.length;
+}
+
+function getBoundingBox(bounds: Bounds[]): Bounds {
+  const x = Math.min(...bounds.map((b) => b.x));
+  const y = Math.min(...bounds.map((b) => b.y));
+  const right = Math.max(...bounds.map((b) => b.x + b.width));
+  const bottom = Math.max(...bounds.map((b) => b.y + b.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
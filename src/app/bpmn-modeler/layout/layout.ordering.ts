@@ -0,0 +1,225 @@
+import type { LayoutNode, LaneMeta, OrderingResult } from './layout.types';
+
+interface ForwardEdge {
+  source: LayoutNode;
+  target: LayoutNode;
+}
+
+function getLaneOrder(laneData: Map<string, LaneMeta>): LaneMeta[] {
+  return Array.from(laneData.values()).sort(
+    (a, b) => ((a.element as { y?: number }).y ?? 0) - ((b.element as { y?: number }).y ?? 0)
+  );
+}
+
+function getForwardEdges(
+  nodeMap: Map<string, LayoutNode>,
+  adjacency: Map<string, string[]>
+): ForwardEdge[] {
+  const edges: ForwardEdge[] = [];
+  adjacency.forEach((neighbors, fromId) => {
+    const source = nodeMap.get(fromId);
+    if (!source) return;
+    for (const toId of neighbors) {
+      const target = nodeMap.get(toId);
+      if (target && target.rank > source.rank) edges.push({ source, target });
+    }
+  });
+  return edges;
+}
+
+function computePositions(lanes: LaneMeta[], maxGlobalRank: number): Map<string, number> {
+  const positions = new Map<string, number>();
+  for (let r = 0; r <= maxGlobalRank; r++) {
+    let position = 0;
+    for (const meta of lanes) {
+      for (const node of meta.nodesByRank.get(r) ?? []) {
+        positions.set(node.id, position++);
+      }
+    }
+  }
+  return positions;
+}
+
+/**
+ * Position of an edge at the given rank. An edge spanning several ranks is taken as a straight line
+ * through the ranks it skips, standing in for the virtual nodes it would pass there.
+ */
+function positionAt(edge: ForwardEdge, rank: number, positions: Map<string, number>): number {
+  const from = positions.get(edge.source.id)!;
+  const to = positions.get(edge.target.id)!;
+  return from + ((to - from) * (rank - edge.source.rank)) / (edge.target.rank - edge.source.rank);
+}
+
+/** Whether two edges swap order across the ranks both of them span. */
+function edgesCross(e1: ForwardEdge, e2: ForwardEdge, positions: Map<string, number>): boolean {
+  const first = Math.max(e1.source.rank, e2.source.rank);
+  const last = Math.min(e1.target.rank, e2.target.rank);
+  if (first >= last) return false;
+  const firstDelta = positionAt(e1, first, positions) - positionAt(e2, first, positions);
+  const lastDelta = positionAt(e1, last, positions) - positionAt(e2, last, positions);
+  return firstDelta * lastDelta < 0;
+}
+
+function countEdgeCrossings(edges: ForwardEdge[], positions: Map<string, number>): number {
+  let crossings = 0;
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      if (edgesCross(edges[i], edges[j], positions)) crossings++;
+    }
+  }
+  return crossings;
+}
+
+export function countCrossings(
+  laneData: Map<string, LaneMeta>,
+  nodeMap: Map<string, LayoutNode>,
+  adjacency: Map<string, string[]>,
+  maxGlobalRank: number
+): number {
+  const positions = computePositions(getLaneOrder(laneData), maxGlobalRank);
+  return countEdgeCrossings(getForwardEdges(nodeMap, adjacency), positions);
+}
+
+function snapshotOrder(lanes: LaneMeta[]): Map<LaneMeta, Map<number, LayoutNode[]>> {
+  const snapshot = new Map<LaneMeta, Map<number, LayoutNode[]>>();
+  for (const meta of lanes) {
+    const ranks = new Map<number, LayoutNode[]>();
+    meta.nodesByRank.forEach((nodes, rank) => ranks.set(rank, [...nodes]));
+    snapshot.set(meta, ranks);
+  }
+  return snapshot;
+}
+
+function restoreOrder(snapshot: Map<LaneMeta, Map<number, LayoutNode[]>>): void {
+  snapshot.forEach((ranks, meta) => {
+    ranks.forEach((nodes, rank) => meta.nodesByRank.set(rank, [...nodes]));
+  });
+}
+
+function sortByBarycenter(
+  lanes: LaneMeta[],
+  rank: number,
+  neighborsOf: Map<string, string[]>,
+  positions: Map<string, number>
+): void {
+  for (const meta of lanes) {
+    const nodes = meta.nodesByRank.get(rank);
+    if (!nodes || nodes.length < 2) continue;
+    const weights = new Map<LayoutNode, number>();
+    nodes.forEach((node, index) => {
+      const neighborPositions = (neighborsOf.get(node.id) ?? [])
+        .map((id) => positions.get(id))
+        .filter((p): p is number => p !== undefined);
+      weights.set(
+        node,
+        neighborPositions.length > 0
+          ? neighborPositions.reduce((sum, p) => sum + p, 0) / neighborPositions.length
+          : positions.get(node.id) ?? index
+      );
+    });
+    nodes.sort((a, b) => weights.get(a)! - weights.get(b)!);
+  }
+}
+
+function countPairCrossings(
+  uEdges: ForwardEdge[],
+  vEdges: ForwardEdge[],
+  positions: Map<string, number>
+): number {
+  let crossings = 0;
+  for (const e1 of uEdges) {
+    for (const e2 of vEdges) {
+      if (e1 !== e2 && edgesCross(e1, e2, positions)) crossings++;
+    }
+  }
+  return crossings;
+}
+
+function transpose(
+  lanes: LaneMeta[],
+  maxGlobalRank: number,
+  incidentEdges: Map<string, ForwardEdge[]>
+): void {
+  const positions = computePositions(lanes, maxGlobalRank);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let r = 0; r <= maxGlobalRank; r++) {
+      for (const meta of lanes) {
+        const nodes = meta.nodesByRank.get(r);
+        if (!nodes || nodes.length < 2) continue;
+        for (let i = 0; i < nodes.length - 1; i++) {
+          const u = nodes[i];
+          const v = nodes[i + 1];
+          const uEdges = incidentEdges.get(u.id) ?? [];
+          const vEdges = incidentEdges.get(v.id) ?? [];
+          const before = countPairCrossings(uEdges, vEdges, positions);
+          const uPosition = positions.get(u.id)!;
+          positions.set(u.id, positions.get(v.id)!);
+          positions.set(v.id, uPosition);
+          const after = countPairCrossings(uEdges, vEdges, positions);
+          if (after < before) {
+            nodes[i] = v;
+            nodes[i + 1] = u;
+            improved = true;
+          } else {
+            positions.set(v.id, positions.get(u.id)!);
+            positions.set(u.id, uPosition);
+          }
+        }
+      }
+    }
+  }
+}
+
+export function orderNodesWithinRanks(
+  laneData: Map<string, LaneMeta>,
+  nodeMap: Map<string, LayoutNode>,
+  adjacency: Map<string, string[]>,
+  maxGlobalRank: number,
+  sweeps: number = 4
+): OrderingResult {
+  const lanes = getLaneOrder(laneData);
+  const edges = getForwardEdges(nodeMap, adjacency);
+  const predecessors = new Map<string, string[]>();
+  const successors = new Map<string, string[]>();
+  const incidentEdges = new Map<string, ForwardEdge[]>();
+  for (const edge of edges) {
+    const { source, target } = edge;
+    for (const id of [source.id, target.id]) {
+      if (!incidentEdges.has(id)) incidentEdges.set(id, []);
+      incidentEdges.get(id)!.push(edge);
+    }
+    if (!predecessors.has(target.id)) predecessors.set(target.id, []);
+    predecessors.get(target.id)!.push(source.id);
+    if (!successors.has(source.id)) successors.set(source.id, []);
+    successors.get(source.id)!.push(target.id);
+  }
+
+  const crossingsBefore = countEdgeCrossings(edges, computePositions(lanes, maxGlobalRank));
+  let best = snapshotOrder(lanes);
+  let bestCrossings = crossingsBefore;
+
+  for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+    const downward = sweep % 2 === 0;
+    for (let step = 1; step <= maxGlobalRank; step++) {
+      const rank = downward ? step : maxGlobalRank - step;
+      sortByBarycenter(
+        lanes,
+        rank,
+        downward ? predecessors : successors,
+        computePositions(lanes, maxGlobalRank)
+      );
+    }
+    transpose(lanes, maxGlobalRank, incidentEdges);
+
+    const crossings = countEdgeCrossings(edges, computePositions(lanes, maxGlobalRank));
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = snapshotOrder(lanes);
+    }
+  }
+
+  restoreOrder(best);
+  return { crossingsBefore, crossingsAfter: bestCrossings };
+}
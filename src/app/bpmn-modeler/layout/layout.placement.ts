@@ -0,0 +1,52 @@
+import type { Bounds, LayoutConstants } from './layout.types';
+import { LAYOUT_AXES } from './layout.types';
+import { toBounds } from './layout.geometry';
+
+export interface PlacedNode extends Bounds {
+  id: string;
+  rank: number;
+}
+
+function overlaps(a: Bounds, b: Bounds, gap: number): boolean {
+  return (
+    a.x < b.x + b.width + gap &&
+    a.x + a.width + gap > b.x &&
+    a.y < b.y + b.height + gap &&
+    a.y + a.height + gap > b.y
+  );
+}
+
+/**
+ * Bounds for a new node of the given size at `rank` of the rank grid formed by the existing nodes.
+ * An occupied rank reuses its column; a new rank opens a column one column spacing after the
+ * previous one (or at the lane's leading edge). Across the flow the node goes to the lane centre,
+ * or past the nodes already sitting in that cell.
+ */
+export function findNextFreeSlot(
+  lane: Bounds,
+  nodes: PlacedNode[],
+  rank: number,
+  size: { width: number; height: number },
+  constants: LayoutConstants
+): Bounds {
+  const { flow, cross, flowSize, crossSize } = LAYOUT_AXES[constants.orientation];
+  const inRank = nodes.filter((n) => n.rank === rank);
+  const before = nodes.filter((n) => n.rank < rank);
+
+  const flowPos =
+    inRank.length > 0
+      ? Math.min(...inRank.map((n) => n[flow]))
+      : before.length > 0
+        ? Math.max(...before.map((n) => n[flow] + n[flowSize])) + constants.colSpacing
+        : lane[flow] + constants.lanePadding;
+
+  const crossPos = lane[cross] + (lane[crossSize] - size[crossSize]) / 2;
+  const bounds = toBounds(flow, flowPos, crossPos, size[flowSize], size[crossSize]);
+  const gap = constants.rowSpacing / 2;
+  let blocker = nodes.find((n) => overlaps(bounds, n, gap));
+  while (blocker) {
+    bounds[cross] = blocker[cross] + blocker[crossSize] + constants.rowSpacing;
+    blocker = nodes.find((n) => overlaps(bounds, n, gap));
+  }
+  return bounds;
+}
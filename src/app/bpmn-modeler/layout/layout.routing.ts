@@ -0,0 +1,366 @@
+import type { Bounds, DockingSide, Point, LayoutConstants, LayoutOrientation } from './layout.types';
+import { DEFAULT_LAYOUT_CONSTANTS } from './layout.types';
+import { computeManhattanWaypoints } from './layout.waypoints';
+
+type Direction = 0 | 1 | 2 | 3;
+
+const DIRECTION_VECTORS: Array<{ dx: number; dy: number }> = [
+  { dx: 0, dy: -1 },
+  { dx: 1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: -1, dy: 0 }
+];
+
+const DOCKING_SIDES: DockingSide[] = ['top', 'right', 'bottom', 'left'];
+
+const SIDE_DIRECTIONS: Record<DockingSide, Direction> = {
+  top: 0,
+  right: 1,
+  bottom: 2,
+  left: 3
+};
+
+interface QueueEntry {
+  state: number;
+  priority: number;
+}
+
+class MinHeap {
+  private items: QueueEntry[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(entry: QueueEntry): void {
+    this.items.push(entry);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent].priority <= this.items[i].priority) break;
+      [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): QueueEntry {
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left;
+        if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+export function getDockingPoint(bounds: Bounds, side: DockingSide): Point {
+  switch (side) {
+    case 'top':
+      return { x: bounds.x + bounds.width / 2, y: bounds.y };
+    case 'bottom':
+      return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height };
+    case 'left':
+      return { x: bounds.x, y: bounds.y + bounds.height / 2 };
+    case 'right':
+      return { x: bounds.x + bounds.width, y: bounds.y + bounds.height / 2 };
+  }
+}
+
+const TRANSPOSED_SIDES: Record<DockingSide, DockingSide> = {
+  top: 'left',
+  left: 'top',
+  bottom: 'right',
+  right: 'bottom'
+};
+
+function transposeBounds(bounds: Bounds): Bounds {
+  return { x: bounds.y, y: bounds.x, width: bounds.height, height: bounds.width };
+}
+
+/**
+ * Flows leave the right side and enter the left one, except that branches leave a split gateway
+ * from the top/bottom corner facing them and enter a join gateway the same way.
+ */
+export function chooseDockingSides(
+  source: Bounds,
+  target: Bounds,
+  isGatewaySource: boolean,
+  orientation: LayoutOrientation = 'horizontal',
+  isGatewayTarget = false
+): { sourceSide: DockingSide; targetSide: DockingSide } {
+  if (orientation === 'vertical') {
+    const sides = chooseDockingSides(
+      transposeBounds(source),
+      transposeBounds(target),
+      isGatewaySource,
+      'horizontal',
+      isGatewayTarget
+    );
+    return { sourceSide: TRANSPOSED_SIDES[sides.sourceSide], targetSide: TRANSPOSED_SIDES[sides.targetSide] };
+  }
+
+  const sourceCenterY = source.y + source.height / 2;
+  const targetCenterY = target.y + target.height / 2;
+
+  if (target.x + target.width / 2 < source.x + source.width / 2) {
+    return { sourceSide: targetCenterY < sourceCenterY ? 'top' : 'bottom', targetSide: 'left' };
+  }
+  if (isGatewaySource && Math.abs(targetCenterY - sourceCenterY) > source.height / 2) {
+    return { sourceSide: targetCenterY < sourceCenterY ? 'top' : 'bottom', targetSide: 'left' };
+  }
+  if (isGatewayTarget && Math.abs(sourceCenterY - targetCenterY) > target.height / 2) {
+    return { sourceSide: 'right', targetSide: sourceCenterY < targetCenterY ? 'top' : 'bottom' };
+  }
+  return { sourceSide: 'right', targetSide: 'left' };
+}
+
+/**
+ * Sides facing each other across the larger gap between the two shapes, or across the given axis.
+ * Used for message flows (always vertical, between stacked pools) and associations.
+ */
+export function chooseFacingSides(
+  source: Bounds,
+  target: Bounds,
+  axis?: 'horizontal' | 'vertical'
+): { sourceSide: DockingSide; targetSide: DockingSide } {
+  const gapX = Math.max(target.x - (source.x + source.width), source.x - (target.x + target.width));
+  const gapY = Math.max(target.y - (source.y + source.height), source.y - (target.y + target.height));
+  if ((axis ?? (gapY >= gapX ? 'vertical' : 'horizontal')) === 'vertical') {
+    return target.y + target.height / 2 >= source.y + source.height / 2
+      ? { sourceSide: 'bottom', targetSide: 'top' }
+      : { sourceSide: 'top', targetSide: 'bottom' };
+  }
+  return target.x + target.width / 2 >= source.x + source.width / 2
+    ? { sourceSide: 'right', targetSide: 'left' }
+    : { sourceSide: 'left', targetSide: 'right' };
+}
+
+function inflate(bounds: Bounds, margin: number): Bounds {
+  return {
+    x: bounds.x - margin,
+    y: bounds.y - margin,
+    width: bounds.width + margin * 2,
+    height: bounds.height + margin * 2
+  };
+}
+
+function isStrictlyInside(point: Point, bounds: Bounds): boolean {
+  return (
+    point.x > bounds.x + 0.5 &&
+    point.x < bounds.x + bounds.width - 0.5 &&
+    point.y > bounds.y + 0.5 &&
+    point.y < bounds.y + bounds.height - 0.5
+  );
+}
+
+function uniqueSorted(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.filter((v, i) => i === 0 || Math.abs(v - sorted[i - 1]) > 0.5);
+}
+
+function simplifyPath(points: Point[]): Point[] {
+  const result: Point[] = [];
+  for (const p of points) {
+    const last = result[result.length - 1];
+    if (last && Math.abs(last.x - p.x) < 0.5 && Math.abs(last.y - p.y) < 0.5) continue;
+    const prev = result[result.length - 2];
+    if (
+      prev &&
+      last &&
+      ((Math.abs(prev.x - last.x) < 0.5 && Math.abs(last.x - p.x) < 0.5) ||
+        (Math.abs(prev.y - last.y) < 0.5 && Math.abs(last.y - p.y) < 0.5))
+    ) {
+      result[result.length - 1] = p;
+      continue;
+    }
+    result.push(p);
+  }
+  return result;
+}
+
+export function routeOrthogonal(
+  source: Bounds,
+  target: Bounds,
+  obstacles: Bounds[],
+  sourceSide: DockingSide,
+  targetSide: DockingSide,
+  constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS
+): Point[] | null {
+  const margin = constants.routingMargin;
+  const startDir = SIDE_DIRECTIONS[sourceSide];
+  const endDir = SIDE_DIRECTIONS[targetSide];
+  const sourcePort = getDockingPoint(source, sourceSide);
+  const targetPort = getDockingPoint(target, targetSide);
+  const start = {
+    x: sourcePort.x + DIRECTION_VECTORS[startDir].dx * margin,
+    y: sourcePort.y + DIRECTION_VECTORS[startDir].dy * margin
+  };
+  const goal = {
+    x: targetPort.x + DIRECTION_VECTORS[endDir].dx * margin,
+    y: targetPort.y + DIRECTION_VECTORS[endDir].dy * margin
+  };
+
+  const area = inflate(
+    {
+      x: Math.min(source.x, target.x),
+      y: Math.min(source.y, target.y),
+      width: Math.max(source.x + source.width, target.x + target.width) - Math.min(source.x, target.x),
+      height: Math.max(source.y + source.height, target.y + target.height) - Math.min(source.y, target.y)
+    },
+    margin * 4
+  );
+  const blockers = [source, target, ...obstacles]
+    .filter(
+      (o) =>
+        o.x < area.x + area.width &&
+        o.x + o.width > area.x &&
+        o.y < area.y + area.height &&
+        o.y + o.height > area.y
+    )
+    .map((o) => inflate(o, margin));
+
+  const xs = uniqueSorted([
+    start.x,
+    goal.x,
+    area.x,
+    area.x + area.width,
+    ...blockers.flatMap((b) => [b.x, b.x + b.width])
+  ]);
+  const ys = uniqueSorted([
+    start.y,
+    goal.y,
+    area.y,
+    area.y + area.height,
+    ...blockers.flatMap((b) => [b.y, b.y + b.height])
+  ]);
+  const blocked = (p: Point) => blockers.some((b) => isStrictlyInside(p, b));
+  const indexOf = (values: number[], v: number) => values.findIndex((c) => Math.abs(c - v) <= 0.5);
+
+  const cols = xs.length;
+  const startIndex = indexOf(ys, start.y) * cols + indexOf(xs, start.x);
+  const goalIndex = indexOf(ys, goal.y) * cols + indexOf(xs, goal.x);
+  const stateOf = (index: number, dir: Direction) => index * 4 + dir;
+
+  const costs = new Map<number, number>();
+  const previous = new Map<number, number>();
+  const queue = new MinHeap();
+  const heuristic = (index: number) => {
+    const x = xs[index % cols];
+    const y = ys[Math.floor(index / cols)];
+    return Math.abs(x - goal.x) + Math.abs(y - goal.y);
+  };
+
+  const initial = stateOf(startIndex, startDir);
+  costs.set(initial, 0);
+  queue.push({ state: initial, priority: heuristic(startIndex) });
+
+  let reached: number | null = null;
+  while (queue.size > 0) {
+    const { state, priority } = queue.pop();
+    const index = state >> 2;
+    const dir = (state & 3) as Direction;
+    const cost = costs.get(state)!;
+    if (priority > cost + heuristic(index) + 0.001) continue;
+    if (index === goalIndex && dir === ((endDir + 2) % 4)) {
+      reached = state;
+      break;
+    }
+
+    const col = index % cols;
+    const row = Math.floor(index / cols);
+    for (let nextDir = 0 as Direction; nextDir < 4; nextDir = (nextDir + 1) as Direction) {
+      if (nextDir === (dir + 2) % 4) continue;
+      const nextCol = col + DIRECTION_VECTORS[nextDir].dx;
+      const nextRow = row + DIRECTION_VECTORS[nextDir].dy;
+      if (nextCol < 0 || nextCol >= cols || nextRow < 0 || nextRow >= ys.length) continue;
+      const from = { x: xs[col], y: ys[row] };
+      const to = { x: xs[nextCol], y: ys[nextRow] };
+      if (blocked(to) || blocked({ x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 })) continue;
+
+      const nextIndex = nextRow * cols + nextCol;
+      let stepCost = Math.abs(to.x - from.x) + Math.abs(to.y - from.y);
+      if (nextDir !== dir) stepCost += constants.bendPenalty;
+      if (nextIndex === goalIndex && nextDir !== (endDir + 2) % 4) stepCost += constants.bendPenalty;
+      const nextState = stateOf(nextIndex, nextIndex === goalIndex ? ((endDir + 2) % 4 as Direction) : nextDir);
+      const nextCost = cost + stepCost;
+      if (nextCost < (costs.get(nextState) ?? Infinity)) {
+        costs.set(nextState, nextCost);
+        previous.set(nextState, state);
+        queue.push({ state: nextState, priority: nextCost + heuristic(nextIndex) });
+      }
+    }
+  }
+
+  if (reached === null) return null;
+
+  const path: Point[] = [];
+  for (let state: number | undefined = reached; state !== undefined; state = previous.get(state)) {
+    const index = state >> 2;
+    path.unshift({ x: xs[index % cols], y: ys[Math.floor(index / cols)] });
+  }
+  return simplifyPath([sourcePort, ...path, targetPort]);
+}
+
+/** Side of the host a boundary event sits on, i.e. the host edge closest to the event's center. */
+export function getAttachmentSide(attached: Bounds, host: Bounds): DockingSide {
+  const cx = attached.x + attached.width / 2;
+  const cy = attached.y + attached.height / 2;
+  const distances: Array<[DockingSide, number]> = [
+    ['top', Math.abs(cy - host.y)],
+    ['right', Math.abs(cx - (host.x + host.width))],
+    ['bottom', Math.abs(cy - (host.y + host.height))],
+    ['left', Math.abs(cx - host.x)]
+  ];
+  return distances.reduce((best, entry) => (entry[1] < best[1] ? entry : best))[0];
+}
+
+export function computeRoutedWaypoints(
+  source: Bounds,
+  target: Bounds,
+  obstacles: Bounds[],
+  isGatewaySource: boolean,
+  constants: LayoutConstants = DEFAULT_LAYOUT_CONSTANTS,
+  forcedSides: Partial<Record<'sourceSide' | 'targetSide', DockingSide>> = {},
+  isGatewayTarget = false
+): Point[] {
+  const { sourceSide, targetSide } = {
+    ...chooseDockingSides(source, target, isGatewaySource, constants.orientation, isGatewayTarget),
+    ...forcedSides
+  };
+  const routed = routeOrthogonal(source, target, obstacles, sourceSide, targetSide, constants);
+  if (routed) return routed;
+
+  // Blocked ports: try the other sides (keeping forced ones) before giving up on avoiding obstacles
+  const sourceSides = forcedSides.sourceSide ? [sourceSide] : DOCKING_SIDES;
+  const targetSides = forcedSides.targetSide ? [targetSide] : DOCKING_SIDES;
+  for (const otherSourceSide of sourceSides) {
+    for (const otherTargetSide of targetSides) {
+      if (otherSourceSide === sourceSide && otherTargetSide === targetSide) continue;
+      const detour = routeOrthogonal(source, target, obstacles, otherSourceSide, otherTargetSide, constants);
+      if (detour) return detour;
+    }
+  }
+  return computeManhattanWaypoints(
+    source.x,
+    source.y,
+    source.width,
+    source.height,
+    target.x,
+    target.y,
+    target.width,
+    target.height,
+    constants.orientation,
+    { source: isGatewaySource, target: isGatewayTarget }
+  );
+}
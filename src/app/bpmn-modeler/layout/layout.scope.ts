@@ -0,0 +1,123 @@
+import type { Bounds, LaneMeta, LayoutConstants, LayoutNode, Point } from './layout.types';
+import { LAYOUT_AXES } from './layout.types';
+import { toPoint, type NodePosition } from './layout.geometry';
+import { applyOrderConstraints, getStackGap, getStackHeight } from './layout.constraints';
+
+export interface LayoutScope {
+  elementIds?: string[];
+  containerId?: string;
+}
+
+export interface FixedNode extends Bounds {
+  id: string;
+}
+
+function overlaps(a: Bounds, b: Bounds, gap: number): boolean {
+  return (
+    a.x < b.x + b.width + gap &&
+    a.x + a.width + gap > b.x &&
+    a.y < b.y + b.height + gap &&
+    a.y + a.height + gap > b.y
+  );
+}
+
+/**
+ * Positions the movable nodes of a scoped layout. Column positions start at the leading edge of the
+ * scope and are pushed past any fixed predecessor, then pulled back in front of any fixed successor
+ * (fixed predecessors win when both cannot hold); nodes that would land on a fixed node are pushed
+ * across the flow past it. Stacks follow the `above` and `minSpacing` constraints as in a full layout.
+ * Lanes keep their current bounds.
+ */
+export function computeScopedLayout(
+  laneData: Map<string, LaneMeta>,
+  nodeMap: Map<string, LayoutNode>,
+  rankWidths: Map<number, number>,
+  fixedNodes: FixedNode[],
+  fixedPredecessors: Map<string, string[]>,
+  fixedSuccessors: Map<string, string[]>,
+  constants: LayoutConstants
+): NodePosition[] {
+  const { flow, cross, flowSize, crossSize } = LAYOUT_AXES[constants.orientation];
+  const fixedById = new Map(fixedNodes.map((n) => [n.id, n]));
+  const maxRank = Math.max(0, ...Array.from(rankWidths.keys()));
+
+  const minColumnX = new Map<number, number>();
+  const maxColumnX = new Map<number, number>();
+  let originX = Infinity;
+  nodeMap.forEach((node) => {
+    originX = Math.min(originX, (node.element as Point)[flow]);
+    for (const predId of fixedPredecessors.get(node.id) ?? []) {
+      const pred = fixedById.get(predId);
+      if (!pred) continue;
+      const required = pred[flow] + pred[flowSize] + constants.colSpacing;
+      minColumnX.set(node.rank, Math.max(minColumnX.get(node.rank) ?? -Infinity, required));
+    }
+    for (const succId of fixedSuccessors.get(node.id) ?? []) {
+      const succ = fixedById.get(succId);
+      // A loop back to a fixed node upstream does not bound the column
+      if (!succ || succ[flow] <= (node.element as Point)[flow]) continue;
+      const allowed = succ[flow] - constants.colSpacing - (rankWidths.get(node.rank) ?? 100);
+      maxColumnX.set(node.rank, Math.min(maxColumnX.get(node.rank) ?? Infinity, allowed));
+    }
+  });
+
+  const columnX = new Map<number, number>();
+  let x = Math.max(originX, minColumnX.get(0) ?? -Infinity);
+  for (let r = 0; r <= maxRank; r++) {
+    x = Math.max(x, minColumnX.get(r) ?? -Infinity);
+    columnX.set(r, x);
+    x += (rankWidths.get(r) ?? 100) + constants.colSpacing;
+  }
+  // Pull columns back in front of fixed successors, and the columns before them along...
+  let limit = Infinity;
+  for (let r = maxRank; r >= 0; r--) {
+    limit = Math.min(limit, maxColumnX.get(r) ?? Infinity);
+    if (limit < columnX.get(r)!) columnX.set(r, limit);
+    limit = columnX.get(r)! - constants.colSpacing - (rankWidths.get(r - 1) ?? 100);
+  }
+  // ... but not out of the lanes' leading edge
+  const laneStarts = Array.from(laneData.values(), (meta) => (meta.element as Partial<Bounds>)[flow] ?? -Infinity);
+  let floor = Math.max(...laneStarts) + constants.lanePadding;
+  for (let r = 0; r <= maxRank; r++) {
+    floor = Math.max(floor, minColumnX.get(r) ?? -Infinity);
+    if (floor > columnX.get(r)!) columnX.set(r, floor);
+    floor = columnX.get(r)! + (rankWidths.get(r) ?? 100) + constants.colSpacing;
+  }
+
+  const nodePositions: NodePosition[] = [];
+  const placed: Bounds[] = [];
+  laneData.forEach((meta) => {
+    const lane = meta.element as Partial<Bounds>;
+    const laneCenterY = (lane[cross] ?? meta.y) + (lane[crossSize] ?? meta.height) / 2;
+
+    meta.nodesByRank.forEach((rankNodes, rank) => {
+      const siblings = applyOrderConstraints(rankNodes);
+      let y = laneCenterY - getStackHeight(siblings, constants) / 2;
+
+      siblings.forEach((node, i) => {
+        const spacing = Math.max(constants.rowSpacing, node.constraints?.minSpacing ?? 0);
+        const bounds: Bounds = { ...toPoint(flow, columnX.get(rank) ?? 0, y), width: node.width, height: node.height };
+        let blocker = [...fixedNodes, ...placed].find((b) => overlaps(bounds, b, spacing / 2));
+        while (blocker) {
+          bounds[cross] = blocker[cross] + blocker[crossSize] + spacing;
+          blocker = [...fixedNodes, ...placed].find((b) => overlaps(bounds, b, spacing / 2));
+        }
+        placed.push(bounds);
+
+        const elem = node.element as { x: number; y: number };
+        nodePositions.push({
+          nodeId: node.id,
+          x: bounds.x,
+          y: bounds.y,
+          dx: bounds.x - elem.x,
+          dy: bounds.y - elem.y,
+          laneId: node.laneId
+        });
+        const next = siblings[i + 1];
+        y = bounds[cross] + node[crossSize] + (next ? getStackGap(node, next, constants) : 0);
+      });
+    });
+  });
+
+  return nodePositions;
+}
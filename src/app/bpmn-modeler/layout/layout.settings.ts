@@ -0,0 +1,144 @@
+import { DEFAULT_LAYOUT_CONSTANTS, type LayoutConstants, type LayoutOrientation } from './layout.types';
+
+export const LAYOUT_SETTING_KEYS = [
+  'colSpacing',
+  'rowSpacing',
+  'lanePadding',
+  'startXOffset',
+  'collisionThreshold',
+  'parallelOffset'
+] as const;
+
+export type LayoutSettingKey = (typeof LAYOUT_SETTING_KEYS)[number];
+/** The numeric settings plus the orientation, which presets leave as it is. */
+export type LayoutSettings = Pick<LayoutConstants, LayoutSettingKey | 'orientation'>;
+export type LayoutPreset = Pick<LayoutConstants, LayoutSettingKey>;
+export type LayoutPresetName = 'compact' | 'spacious' | 'print';
+
+export const LAYOUT_ORIENTATIONS: LayoutOrientation[] = ['horizontal', 'vertical'];
+
+export const LAYOUT_SETTING_LIMITS: Record<LayoutSettingKey, { min: number; max: number }> = {
+  colSpacing: { min: 20, max: 400 },
+  rowSpacing: { min: 10, max: 300 },
+  lanePadding: { min: 20, max: 300 },
+  startXOffset: { min: 0, max: 1000 },
+  collisionThreshold: { min: 1, max: 50 },
+  parallelOffset: { min: 5, max: 100 }
+};
+
+export const LAYOUT_PRESETS: Record<LayoutPresetName, LayoutPreset> = {
+  compact: {
+    colSpacing: 50,
+    rowSpacing: 20,
+    lanePadding: 40,
+    startXOffset: 100,
+    collisionThreshold: 4,
+    parallelOffset: 12
+  },
+  spacious: {
+    colSpacing: 130,
+    rowSpacing: 50,
+    lanePadding: 110,
+    startXOffset: 180,
+    collisionThreshold: 6,
+    parallelOffset: 24
+  },
+  print: {
+    colSpacing: 60,
+    rowSpacing: 40,
+    lanePadding: 60,
+    startXOffset: 120,
+    collisionThreshold: 8,
+    parallelOffset: 20
+  }
+};
+
+const SETTINGS_TYPE = 'layout:Settings';
+
+interface ModdleElementLike {
+  $type: string;
+  get: (name: string) => unknown;
+}
+
+interface SettingsRootLike {
+  businessObject?: unknown;
+}
+
+export interface SettingsModelingLike {
+  updateModdleProperties: (element: unknown, moddleElement: unknown, properties: Record<string, unknown>) => void;
+}
+
+export interface SettingsFactoryLike {
+  create: (type: string, attrs: Record<string, unknown>) => unknown;
+}
+
+/** Returns an error message, or null when `value` is a valid value for the setting. */
+export function validateLayoutSetting(key: LayoutSettingKey, value: number): string | null {
+  const { min, max } = LAYOUT_SETTING_LIMITS[key];
+  if (!Number.isFinite(value)) return 'Enter a number';
+  if (!Number.isInteger(value)) return 'Enter a whole number';
+  if (value < min || value > max) return `Must be between ${min} and ${max}`;
+  return null;
+}
+
+/** Only the stored settings of `values`, e.g. of a full set of layout constants. */
+export function pickLayoutSettings(values: LayoutSettings): LayoutSettings {
+  const settings = { orientation: values.orientation } as LayoutSettings;
+  for (const key of LAYOUT_SETTING_KEYS) settings[key] = values[key];
+  return settings;
+}
+
+export function toLayoutConstants(settings?: Partial<LayoutSettings>): LayoutConstants {
+  return { ...DEFAULT_LAYOUT_CONSTANTS, ...settings };
+}
+
+/**
+ * Reads the `layout:settings` extension element of the diagram's root element (process or
+ * collaboration). Values that fail validation are ignored.
+ */
+export function readLayoutSettings(root: SettingsRootLike | null | undefined): Partial<LayoutSettings> | undefined {
+  const element = findSettingsElement(root);
+  if (!element) return undefined;
+  const settings: Partial<LayoutSettings> = {};
+  for (const key of LAYOUT_SETTING_KEYS) {
+    const value = element.get(key);
+    if (typeof value === 'number' && validateLayoutSetting(key, value) === null) settings[key] = value;
+  }
+  const orientation = element.get('orientation') as LayoutOrientation | undefined;
+  if (orientation && LAYOUT_ORIENTATIONS.includes(orientation)) settings.orientation = orientation;
+  return settings;
+}
+
+/** Stores the settings on the diagram's root element through `modeling`, so the change can be undone. */
+export function writeLayoutSettings(
+  root: SettingsRootLike,
+  settings: LayoutSettings,
+  modeling: SettingsModelingLike,
+  bpmnFactory: SettingsFactoryLike
+): void {
+  const bo = root.businessObject as ModdleElementLike | undefined;
+  if (!bo) return;
+
+  const existing = findSettingsElement(root);
+  if (existing) {
+    modeling.updateModdleProperties(root, existing, { ...pickLayoutSettings(settings) });
+    return;
+  }
+
+  let extensionElements = bo.get('extensionElements') as ModdleElementLike | undefined;
+  if (!extensionElements) {
+    extensionElements = bpmnFactory.create('bpmn:ExtensionElements', { values: [] }) as ModdleElementLike;
+    modeling.updateModdleProperties(root, bo, { extensionElements });
+  }
+  const values = (extensionElements.get('values') as unknown[] | undefined) ?? [];
+  modeling.updateModdleProperties(root, extensionElements, {
+    values: [...values, bpmnFactory.create(SETTINGS_TYPE, { ...pickLayoutSettings(settings) })]
+  });
+}
+
+function findSettingsElement(root: SettingsRootLike | null | undefined): ModdleElementLike | undefined {
+  const bo = root?.businessObject as ModdleElementLike | undefined;
+  const extensionElements = bo?.get?.('extensionElements') as ModdleElementLike | undefined;
+  const values = (extensionElements?.get('values') as ModdleElementLike[] | undefined) ?? [];
+  return values.find((value) => value.$type === SETTINGS_TYPE);
+}
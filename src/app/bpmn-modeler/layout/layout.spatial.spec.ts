@@ -0,0 +1,303 @@
+import {
+  checkBoundsOverlap,
+  checkSegmentCollision,
+  detectCollisions,
+  detectCrossings,
+  detectEdgeShapeConflicts,
+  detectLabelEdgeConflicts,
+  detectShapeOverlaps,
+  extractSegments,
+  findSegmentIntersection,
+  segmentIntersectsBounds
+} from './layout.collision';
+import { BpmnLayoutEngine, type BpmnConnectionLike, type BpmnElementLike, type BpmnLayoutContext } from './layout.engine';
+import { SegmentIndex } from './layout.spatial';
+import type { LabelLike, Point, Segment, ShapeLike } from './layout.types';
+
+const THRESHOLD = 5;
+
+interface SyntheticDiagram {
+  segments: Segment[];
+  shapes: ShapeLike[];
+  labels: LabelLike[];
+  endpoints: Map<string, string[]>;
+}
+
+/**
+ * A grid of tasks where every task has flows to a few tasks in the next columns, routed with one bend
+ * (Z-shaped), so flows overlap, cross each other and pass through the tasks in between.
+ */
+function createSyntheticDiagram(columns: number, rows: number, fanOut: number): SyntheticDiagram {
+  const shapes: ShapeLike[] = [];
+  for (let col = 0; col < columns; col++) {
+    for (let row = 0; row < rows; row++) {
+      shapes.push({ id: `task_${col}_${row}`, x: col * 150, y: row * 120, width: 100, height: 80 });
+    }
+  }
+  // A few shapes on top of each other
+  for (let i = 0; i < 20; i++) {
+    shapes.push({ id: `overlap_${i}`, x: i * 300 + 40, y: 30, width: 100, height: 80 });
+  }
+
+  const segments: Segment[] = [];
+  const labels: LabelLike[] = [];
+  const endpoints = new Map<string, string[]>();
+  for (let col = 0; col < columns - 1; col++) {
+    for (let row = 0; row < rows; row++) {
+      for (let k = 0; k < fanOut; k++) {
+        const targetCol = Math.min(columns - 1, col + 1 + (k % 2));
+        const targetRow = (row + k) % rows;
+        const id = `flow_${col}_${row}_${k}`;
+        const start: Point = { x: col * 150 + 100, y: row * 120 + 40 };
+        const end: Point = { x: targetCol * 150, y: targetRow * 120 + 40 };
+        const bendX = start.x + 25 + (k % 3) * 2;
+        const waypoints = [start, { x: bendX, y: start.y }, { x: bendX, y: end.y }, end];
+        // Every twentieth flow gets a diagonal segment, which the grid does not index
+        if ((col + row + k) % 20 === 0) waypoints.splice(1, 2, { x: bendX + 10, y: end.y - 7 });
+        segments.push(...extractSegments(id, waypoints));
+        endpoints.set(id, [`task_${col}_${row}`, `task_${targetCol}_${targetRow}`]);
+        labels.push({ id: `${id}_label`, ownerId: id, x: start.x + 2, y: start.y - 10, width: 30, height: 14 });
+      }
+    }
+  }
+  return { segments, shapes, labels, endpoints };
+}
+
+function bruteForce(diagram: SyntheticDiagram) {
+  const { segments, shapes, labels, endpoints } = diagram;
+  const edgeEdge: string[] = [];
+  const crossings: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const [s1, s2] = [segments[i], segments[j]];
+      if (s1.connectionId === s2.connectionId) continue;
+      if (checkSegmentCollision(s1, s2, THRESHOLD)) edgeEdge.push(pairKey(s1, s2));
+      const [first, second] = s1.orientation === 'vertical' ? [s2, s1] : [s1, s2];
+      if (first.orientation !== 'vertical' && findSegmentIntersection(first, second)) {
+        crossings.push(pairKey(first, second));
+      }
+    }
+  }
+  const edgeShape: string[] = [];
+  for (const segment of segments) {
+    for (const shape of shapes) {
+      if (endpoints.get(segment.connectionId)!.includes(shape.id)) continue;
+      if (segmentIntersectsBounds(segment, shape)) edgeShape.push(`${segmentKey(segment)}|${shape.id}`);
+    }
+  }
+  const shapeShape: string[] = [];
+  for (let i = 0; i < shapes.length; i++) {
+    for (let j = i + 1; j < shapes.length; j++) {
+      if (checkBoundsOverlap(shapes[i], shapes[j])) shapeShape.push(`${shapes[i].id}|${shapes[j].id}`);
+    }
+  }
+  const labelEdge: string[] = [];
+  for (const label of labels) {
+    for (const segment of segments) {
+      if (segment.connectionId === label.ownerId) continue;
+      if (segmentIntersectsBounds(segment, label, 0)) labelEdge.push(`${label.id}|${segmentKey(segment)}`);
+    }
+  }
+  return { edgeEdge, crossings, edgeShape, shapeShape, labelEdge };
+}
+
+function segmentKey(segment: Segment): string {
+  return `${segment.connectionId}:${segment.p1.x},${segment.p1.y}-${segment.p2.x},${segment.p2.y}`;
+}
+
+function pairKey(s1: Segment, s2: Segment): string {
+  return [segmentKey(s1), segmentKey(s2)].sort().join('|');
+}
+
+describe('segment grid collision detection', () => {
+  const diagram = createSyntheticDiagram(30, 12, 3);
+  const flowCount = new Set(diagram.segments.map((s) => s.connectionId)).size;
+
+  it('runs on a synthetic diagram with more than 1000 flows', () => {
+    expect(flowCount).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('reports the same conflicts as a pairwise check', () => {
+    const expected = bruteForce(diagram);
+    const { segments, shapes, labels, endpoints } = diagram;
+
+    const edgeEdge = detectCollisions(segments, THRESHOLD).map((c) => pairKey(c.segment1, c.segment2));
+    const crossings = detectCrossings(segments).map((c) => pairKey(c.segment1, c.segment2));
+    const edgeShape = detectEdgeShapeConflicts(segments, shapes, endpoints).map(
+      (c) => `${segmentKey(c.segment)}|${c.shapeId}`
+    );
+    const shapeShape = detectShapeOverlaps(shapes).map((c) => c.shapes.join('|'));
+    const labelEdge = detectLabelEdgeConflicts(segments, labels).map(
+      (c) => `${c.labelId}|${segmentKey(c.segment)}`
+    );
+
+    expect(expected.edgeEdge.length).toBeGreaterThan(0);
+    expect(expected.crossings.length).toBeGreaterThan(0);
+    expect(expected.edgeShape.length).toBeGreaterThan(0);
+    expect(expected.shapeShape.length).toBeGreaterThan(0);
+    expect(expected.labelEdge.length).toBeGreaterThan(0);
+    expect(edgeEdge.sort()).toEqual(expected.edgeEdge.sort());
+    expect(crossings.sort()).toEqual(expected.crossings.sort());
+    expect(edgeShape.sort()).toEqual(expected.edgeShape.sort());
+    expect(shapeShape.sort()).toEqual(expected.shapeShape.sort());
+    expect(labelEdge.sort()).toEqual(expected.labelEdge.sort());
+  });
+
+  it('checks the whole diagram faster than a pairwise check', () => {
+    const { segments, shapes, labels, endpoints } = diagram;
+    const pairwiseStart = performance.now();
+    bruteForce(diagram);
+    const pairwise = performance.now() - pairwiseStart;
+
+    const start = performance.now();
+    detectCollisions(segments, THRESHOLD);
+    detectCrossings(segments);
+    detectEdgeShapeConflicts(segments, shapes, endpoints);
+    detectShapeOverlaps(shapes);
+    detectLabelEdgeConflicts(segments, labels);
+    expect(performance.now() - start).toBeLessThan(pairwise);
+  });
+});
+
+describe('SegmentIndex', () => {
+  const track = (id: string, y: number, x1 = 0, x2 = 300): Segment[] =>
+    extractSegments(id, [{ x: x1, y }, { x: x2, y }]);
+
+  it('finds connections with a parallel segment within the threshold', () => {
+    const index = new SegmentIndex();
+    index.insertConnection('a', track('a', 100));
+    index.insertConnection('b', track('b', 103));
+    index.insertConnection('far', track('far', 400));
+
+    expect(Array.from(index.findNeighbours('a', THRESHOLD))).toEqual(['b']);
+    expect(index.query(index.getSegments('b')[0], THRESHOLD).map((s) => s.connectionId)).toEqual(['a']);
+  });
+
+  it('finds neighbours across cell borders', () => {
+    const index = new SegmentIndex(100);
+    index.insertConnection('a', track('a', 99, 0, 90));
+    index.insertConnection('b', track('b', 102, 110, 250));
+
+    expect(Array.from(index.findNeighbours('a', 30))).toEqual(['b']);
+  });
+
+  it('keeps horizontal and vertical segments apart', () => {
+    const index = new SegmentIndex();
+    index.insertConnection('a', track('a', 100));
+    index.insertConnection('b', extractSegments('b', [{ x: 150, y: 0 }, { x: 150, y: 200 }]));
+
+    expect(index.findNeighbours('a', THRESHOLD).size).toBe(0);
+    expect(index.queryBounds({ x: 140, y: 90, width: 20, height: 20 }, 'vertical').map((s) => s.connectionId)).toEqual(['b']);
+  });
+
+  it('does not index diagonal segments', () => {
+    const index = new SegmentIndex();
+    index.insertConnection('a', extractSegments('a', [{ x: 0, y: 0 }, { x: 100, y: 100 }]));
+
+    expect(index.getSegments('a')).toEqual([]);
+  });
+
+  it('forgets a removed connection', () => {
+    const index = new SegmentIndex();
+    index.insertConnection('a', track('a', 100));
+    index.insertConnection('b', track('b', 102));
+    index.removeConnection('b');
+
+    expect(index.connectionIds).toEqual(['a']);
+    expect(index.getSegments('b')).toEqual([]);
+    expect(index.findNeighbours('a', THRESHOLD).size).toBe(0);
+  });
+
+  it('replaces the segments of a connection inserted again', () => {
+    const index = new SegmentIndex();
+    index.insertConnection('a', track('a', 100));
+    index.insertConnection('b', track('b', 102));
+    index.insertConnection('b', track('b', 400));
+
+    expect(index.getSegments('b').length).toBe(1);
+    expect(index.findNeighbours('a', THRESHOLD).size).toBe(0);
+
+    index.insertConnection('c', track('c', 398));
+    expect(Array.from(index.findNeighbours('b', THRESHOLD))).toEqual(['c']);
+  });
+});
+
+describe('incremental edge collision check', () => {
+  const engine = new BpmnLayoutEngine();
+
+  /** A flow whose vertical track at x overlaps the short flow returned next to it. */
+  function overlappingPair(id: string, dy: number): BpmnConnectionLike[] {
+    const end = (suffix: string) => ({ id: `${id}_${suffix}` });
+    return [
+      {
+        id,
+        type: 'bpmn:SequenceFlow',
+        source: end('source'),
+        target: end('target'),
+        waypoints: [
+          { x: 490, y: dy + 120 },
+          { x: 605, y: dy + 120 },
+          { x: 605, y: dy + 470 },
+          { x: 620, y: dy + 470 }
+        ]
+      },
+      {
+        id: `${id}_other`,
+        type: 'bpmn:SequenceFlow',
+        source: end('other_source'),
+        target: end('other_target'),
+        waypoints: [
+          { x: 605, y: dy + 300 },
+          { x: 605, y: dy + 400 }
+        ]
+      }
+    ];
+  }
+
+  function createContext(connections: BpmnConnectionLike[]) {
+    const updated: string[] = [];
+    const context = {
+      elementRegistry: {
+        filter: (predicate: (element: BpmnElementLike) => boolean) =>
+          (connections as unknown as BpmnElementLike[]).filter(predicate)
+      },
+      modeling: {
+        moveElements: () => undefined,
+        resizeShape: () => undefined,
+        moveShape: () => undefined,
+        updateWaypoints: (connection: BpmnConnectionLike) => updated.push(connection.id)
+      },
+      canvas: { getRootElement: () => ({ id: 'root' }) }
+    } as unknown as BpmnLayoutContext;
+    return { context, updated };
+  }
+
+  const lone: BpmnConnectionLike = {
+    id: 'lone',
+    type: 'bpmn:SequenceFlow',
+    source: { id: 'lone_source' },
+    target: { id: 'lone_target' },
+    waypoints: [
+      { x: 0, y: 2000 },
+      { x: 300, y: 2000 }
+    ]
+  };
+
+  it('only re-checks the changed connections and their neighbours', () => {
+    const { context } = createContext([...overlappingPair('a', 0), ...overlappingPair('c', 1000), lone]);
+
+    expect(engine.hasEdgeCollisions(context)).toBeTrue();
+    expect(engine.hasEdgeCollisions(context, undefined, ['a'])).toBeTrue();
+    expect(engine.hasEdgeCollisions(context, undefined, ['lone'])).toBeFalse();
+  });
+
+  it('leaves collisions away from the changed connections alone', () => {
+    const { context, updated } = createContext([...overlappingPair('a', 0), ...overlappingPair('c', 1000), lone]);
+
+    engine.resolveEdgeCollisions(context, 5, undefined, ['a']);
+
+    expect(updated).toContain('a');
+    expect(updated).not.toContain('c');
+    expect(updated).not.toContain('c_other');
+  });
+});
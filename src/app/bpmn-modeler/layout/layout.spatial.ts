@@ -0,0 +1,92 @@
+import type { Bounds, Segment } from './layout.types';
+
+export class SegmentIndex {
+  private readonly cells = new Map<string, Set<Segment>>();
+  private readonly segmentsByConnection = new Map<string, Array<{ segment: Segment; keys: string[] }>>();
+
+  constructor(private readonly cellSize: number = 100) {}
+
+  get connectionIds(): string[] {
+    return Array.from(this.segmentsByConnection.keys());
+  }
+
+  insertConnection(connectionId: string, segments: Segment[]): void {
+    this.removeConnection(connectionId);
+    const entries: Array<{ segment: Segment; keys: string[] }> = [];
+    for (const segment of segments) {
+      if (segment.orientation === 'diagonal') continue;
+      const keys = this.getCellKeys(segment, 0);
+      for (const key of keys) {
+        if (!this.cells.has(key)) this.cells.set(key, new Set());
+        this.cells.get(key)!.add(segment);
+      }
+      entries.push({ segment, keys });
+    }
+    this.segmentsByConnection.set(connectionId, entries);
+  }
+
+  removeConnection(connectionId: string): void {
+    const entries = this.segmentsByConnection.get(connectionId);
+    if (!entries) return;
+    for (const { segment, keys } of entries) {
+      for (const key of keys) {
+        const cell = this.cells.get(key);
+        if (!cell) continue;
+        cell.delete(segment);
+        if (cell.size === 0) this.cells.delete(key);
+      }
+    }
+    this.segmentsByConnection.delete(connectionId);
+  }
+
+  getSegments(connectionId: string): Segment[] {
+    return (this.segmentsByConnection.get(connectionId) ?? []).map((e) => e.segment);
+  }
+
+  /** Segments of other connections with the same orientation lying within `threshold` of `segment`. */
+  query(segment: Segment, threshold: number): Segment[] {
+    if (segment.orientation === 'diagonal') return [];
+    const found = new Set<Segment>();
+    for (const key of this.getCellKeys(segment, threshold)) {
+      for (const candidate of this.cells.get(key) ?? []) {
+        if (candidate.connectionId !== segment.connectionId) found.add(candidate);
+      }
+    }
+    return Array.from(found);
+  }
+
+  /** Indexed segments of the given orientation whose cells touch `bounds`. */
+  queryBounds(bounds: Bounds, orientation: 'horizontal' | 'vertical'): Segment[] {
+    const prefix = orientation === 'horizontal' ? 'h' : 'v';
+    const found = new Set<Segment>();
+    for (let col = Math.floor(bounds.x / this.cellSize); col <= Math.floor((bounds.x + bounds.width) / this.cellSize); col++) {
+      for (let row = Math.floor(bounds.y / this.cellSize); row <= Math.floor((bounds.y + bounds.height) / this.cellSize); row++) {
+        for (const candidate of this.cells.get(`${prefix}:${col}:${row}`) ?? []) found.add(candidate);
+      }
+    }
+    return Array.from(found);
+  }
+
+  findNeighbours(connectionId: string, threshold: number): Set<string> {
+    const neighbours = new Set<string>();
+    for (const segment of this.getSegments(connectionId)) {
+      for (const candidate of this.query(segment, threshold)) neighbours.add(candidate.connectionId);
+    }
+    return neighbours;
+  }
+
+  private getCellKeys(segment: Segment, padding: number): string[] {
+    const prefix = segment.orientation === 'horizontal' ? 'h' : 'v';
+    const minX = Math.min(segment.p1.x, segment.p2.x) - padding;
+    const maxX = Math.max(segment.p1.x, segment.p2.x) + padding;
+    const minY = Math.min(segment.p1.y, segment.p2.y) - padding;
+    const maxY = Math.max(segment.p1.y, segment.p2.y) + padding;
+    const keys: string[] = [];
+    for (let col = Math.floor(minX / this.cellSize); col <= Math.floor(maxX / this.cellSize); col++) {
+      for (let row = Math.floor(minY / this.cellSize); row <= Math.floor(maxY / this.cellSize); row++) {
+        keys.push(`${prefix}:${col}:${row}`);
+      }
+    }
+    return keys;
+  }
+}
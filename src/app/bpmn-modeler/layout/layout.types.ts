@@ -1,3 +1,10 @@
+export interface LayoutNodeConstraints {
+  pinned?: boolean;
+  sameRankAs?: string;
+  above?: string;
+  minSpacing?: number;
+}
+
 export interface LayoutNode {
   id: string;
   element: unknown;
@@ -5,8 +12,15 @@ export interface LayoutNode {
   laneId: string;
   width: number;
   height: number;
+  constraints?: LayoutNodeConstraints;
+}
+
+export interface BackEdge {
+  sourceId: string;
+  targetId: string;
 }
 
+/** `y` and `height` are measured across the flow, i.e. they are the lane's x and width in vertical layouts. */
 export interface LaneMeta {
   id: string;
   element: unknown;
@@ -16,11 +30,25 @@ export interface LaneMeta {
   nodesByRank: Map<number, LayoutNode[]>;
 }
 
+export interface OrderingResult {
+  crossingsBefore: number;
+  crossingsAfter: number;
+}
+
 export interface Point {
   x: number;
   y: number;
 }
 
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type DockingSide = 'top' | 'right' | 'bottom' | 'left';
+
 export interface Segment {
   connectionId: string;
   p1: Point;
@@ -28,27 +56,104 @@ export interface Segment {
   orientation: 'horizontal' | 'vertical' | 'diagonal';
 }
 
-export interface CollisionConflict {
+export interface EdgeEdgeConflict {
+  kind: 'edge-edge';
+  connections: [string, string];
+  reason: string;
+  segment1: Segment;
+  segment2: Segment;
+}
+
+export interface EdgeCrossingConflict {
+  kind: 'crossing';
   connections: [string, string];
   reason: string;
   segment1: Segment;
   segment2: Segment;
+  point: Point;
+}
+
+export interface EdgeShapeConflict {
+  kind: 'edge-shape';
+  connectionId: string;
+  shapeId: string;
+  reason: string;
+  segment: Segment;
+  shape: Bounds;
+}
+
+export interface ShapeShapeConflict {
+  kind: 'shape-shape';
+  shapes: [string, string];
+  reason: string;
+  bounds1: Bounds;
+  bounds2: Bounds;
 }
 
+export interface LabelEdgeConflict {
+  kind: 'label-edge';
+  labelId: string;
+  connectionId: string;
+  reason: string;
+  label: Bounds;
+  segment: Segment;
+}
+
+export type CollisionConflict =
+  | EdgeEdgeConflict
+  | EdgeCrossingConflict
+  | EdgeShapeConflict
+  | ShapeShapeConflict
+  | LabelEdgeConflict;
+
+export interface ShapeLike extends Bounds {
+  id: string;
+  hostId?: string;
+  parentId?: string;
+}
+
+export interface LabelLike extends Bounds {
+  id: string;
+  ownerId: string;
+}
+
+export type LayoutOrientation = 'horizontal' | 'vertical';
+
+/** Maps the layout's rank (flow) and lane (cross) directions onto diagram coordinates. */
+export interface LayoutAxes {
+  flow: 'x' | 'y';
+  cross: 'x' | 'y';
+  flowSize: 'width' | 'height';
+  crossSize: 'width' | 'height';
+}
+
+export const LAYOUT_AXES: Record<LayoutOrientation, LayoutAxes> = {
+  horizontal: { flow: 'x', cross: 'y', flowSize: 'width', crossSize: 'height' },
+  vertical: { flow: 'y', cross: 'x', flowSize: 'height', crossSize: 'width' }
+};
+
 export interface LayoutConstants {
+  orientation: LayoutOrientation;
   colSpacing: number;
   rowSpacing: number;
   lanePadding: number;
   startXOffset: number;
   collisionThreshold: number;
   parallelOffset: number;
+  routingMargin: number;
+  bendPenalty: number;
+  poolSpacing: number;
 }
 
 export const DEFAULT_LAYOUT_CONSTANTS: LayoutConstants = {
+  orientation: 'horizontal',
   colSpacing: 80,
   rowSpacing: 30,
   lanePadding: 80,
   startXOffset: 150,
   collisionThreshold: 5,
-  parallelOffset: 18
+  parallelOffset: 18,
+  routingMargin: 15,
+  bendPenalty: 40,
+  poolSpacing: 60
 };
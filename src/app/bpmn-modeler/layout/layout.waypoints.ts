@@ -1,5 +1,13 @@
-import type { Point } from './layout.types';
+import type { LayoutOrientation, Point } from './layout.types';
 
+function transpose(p: Point): Point {
+  return { x: p.y, y: p.x };
+}
+
+/**
+ * Elbow path from the source's right side into the target's left side. With `corners` set, a
+ * gateway end offset across the flow is left or entered through its top/bottom corner instead.
+ */
 export function computeManhattanWaypoints(
   sourceX: number,
   sourceY: number,
@@ -8,10 +16,45 @@ export function computeManhattanWaypoints(
   targetX: number,
   targetY: number,
   targetWidth: number,
-  targetHeight: number
+  targetHeight: number,
+  orientation: LayoutOrientation = 'horizontal',
+  corners: { source?: boolean; target?: boolean } = {}
 ): Point[] {
+  if (orientation === 'vertical') {
+    return computeManhattanWaypoints(
+      sourceY,
+      sourceX,
+      sourceHeight,
+      sourceWidth,
+      targetY,
+      targetX,
+      targetHeight,
+      targetWidth,
+      'horizontal',
+      corners
+    ).map(transpose);
+  }
+
   const sourceCenter = { x: sourceX + sourceWidth / 2, y: sourceY + sourceHeight / 2 };
   const targetCenter = { x: targetX + targetWidth / 2, y: targetY + targetHeight / 2 };
+  const below = targetCenter.y > sourceCenter.y;
+
+  if (targetX > sourceX + sourceWidth) {
+    if (corners.source && Math.abs(targetCenter.y - sourceCenter.y) > sourceHeight / 2) {
+      return [
+        { x: sourceCenter.x, y: below ? sourceY + sourceHeight : sourceY },
+        { x: sourceCenter.x, y: targetCenter.y },
+        { x: targetX, y: targetCenter.y }
+      ];
+    }
+    if (corners.target && Math.abs(targetCenter.y - sourceCenter.y) > targetHeight / 2) {
+      return [
+        { x: sourceX + sourceWidth, y: sourceCenter.y },
+        { x: targetCenter.x, y: sourceCenter.y },
+        { x: targetCenter.x, y: below ? targetY : targetY + targetHeight }
+      ];
+    }
+  }
 
   const waypoints: Point[] = [];
   waypoints.push({ x: sourceX + sourceWidth, y: sourceCenter.y });
@@ -28,3 +71,44 @@ export function computeManhattanWaypoints(
   waypoints.push({ x: targetX, y: targetCenter.y });
   return waypoints;
 }
+
+/** `channelY` is the across-flow coordinate of the loop channel, i.e. an x coordinate in vertical layouts. */
+export function computeLoopBackWaypoints(
+  sourceX: number,
+  sourceY: number,
+  sourceWidth: number,
+  sourceHeight: number,
+  targetX: number,
+  targetY: number,
+  targetWidth: number,
+  targetHeight: number,
+  channelY: number,
+  orientation: LayoutOrientation = 'horizontal'
+): Point[] {
+  if (orientation === 'vertical') {
+    return computeLoopBackWaypoints(
+      sourceY,
+      sourceX,
+      sourceHeight,
+      sourceWidth,
+      targetY,
+      targetX,
+      targetHeight,
+      targetWidth,
+      channelY
+    ).map(transpose);
+  }
+
+  const sourceCenterX = sourceX + sourceWidth / 2;
+  const targetCenterX = targetX + targetWidth / 2;
+  const above = channelY < Math.min(sourceY, targetY);
+  const sourceDockY = above ? sourceY : sourceY + sourceHeight;
+  const targetDockY = above ? targetY : targetY + targetHeight;
+
+  return [
+    { x: sourceCenterX, y: sourceDockY },
+    { x: sourceCenterX, y: channelY },
+    { x: targetCenterX, y: channelY },
+    { x: targetCenterX, y: targetDockY }
+  ];
+}
@@ -0,0 +1,261 @@
+import { buildGraphFromElements, addBoundaryEdges } from '../layout';
+
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+export type LintRuleId =
+  | 'start-event'
+  | 'end-event'
+  | 'unreachable'
+  | 'dead-end'
+  | 'superfluous-gateway'
+  | 'conditional-flows'
+  | 'task-name'
+  | 'outside-lane';
+
+export type LintSeverities = Partial<Record<LintRuleId, LintSeverity>>;
+
+export interface LintProblem {
+  ruleId: LintRuleId;
+  severity: Exclude<LintSeverity, 'off'>;
+  elementId: string;
+  message: string;
+}
+
+export interface LintElement {
+  id: string;
+  type: string;
+  parent?: LintElement;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  host?: LintElement;
+  waypoints?: unknown[];
+  labelTarget?: unknown;
+  incoming?: LintElement[];
+  outgoing?: LintElement[];
+  source?: LintElement;
+  target?: LintElement;
+  businessObject?: LintBusinessObject;
+}
+
+interface LintBusinessObject {
+  name?: string;
+  default?: unknown;
+  conditionExpression?: unknown;
+  triggeredByEvent?: boolean;
+  isForCompensation?: boolean;
+  flowNodeRef?: unknown[];
+  eventDefinitions?: Array<{ $type: string }>;
+  $instanceOf?: (type: string) => boolean;
+}
+
+interface ElementRegistryLike {
+  getAll: () => LintElement[];
+}
+
+export const LINT_RULES: Record<LintRuleId, { label: string; defaultSeverity: Exclude<LintSeverity, 'off'> }> = {
+  'start-event': { label: 'Process without start event', defaultSeverity: 'error' },
+  'end-event': { label: 'Process without end event', defaultSeverity: 'error' },
+  unreachable: { label: 'Unreachable node', defaultSeverity: 'error' },
+  'dead-end': { label: 'Dead-end node', defaultSeverity: 'error' },
+  'superfluous-gateway': { label: 'Gateway with a single outgoing flow', defaultSeverity: 'warning' },
+  'conditional-flows': { label: 'Gateway branch without condition', defaultSeverity: 'error' },
+  'task-name': { label: 'Unnamed task', defaultSeverity: 'warning' },
+  'outside-lane': { label: 'Element outside its lane', defaultSeverity: 'warning' }
+};
+
+type RuleReport = (elementId: string, message: string) => void;
+
+/** A process, pool or subprocess together with the flow nodes drawn directly inside it. */
+interface FlowScope {
+  container: LintElement;
+  nodes: LintElement[];
+}
+
+/**
+ * Checks the model behind the diagram for correctness problems (as opposed to `detectCollisions`,
+ * which only looks at the drawing). Rules switched `off` are skipped; errors are listed first.
+ */
+export function lintDiagram(elementRegistry: ElementRegistryLike, severities: LintSeverities = {}): LintProblem[] {
+  const elements = elementRegistry.getAll();
+  const scopes = getFlowScopes(elements);
+  const problems: LintProblem[] = [];
+
+  const run = (ruleId: LintRuleId, rule: (report: RuleReport) => void) => {
+    const severity = severities[ruleId] ?? LINT_RULES[ruleId].defaultSeverity;
+    if (severity === 'off') return;
+    rule((elementId, message) => problems.push({ ruleId, severity, elementId, message }));
+  };
+
+  run('start-event', (report) => {
+    for (const { container, nodes } of scopes) {
+      if (!nodes.some((n) => n.type === 'bpmn:StartEvent')) report(container.id, `${nameOf(container)} has no start event`);
+    }
+  });
+  run('end-event', (report) => {
+    for (const { container, nodes } of scopes) {
+      if (!nodes.some((n) => n.type === 'bpmn:EndEvent')) report(container.id, `${nameOf(container)} has no end event`);
+    }
+  });
+  run('unreachable', (report) => {
+    for (const scope of scopes) {
+      for (const node of findUnreachable(scope)) report(node.id, 'Not reachable from a start event');
+    }
+  });
+  run('dead-end', (report) => {
+    for (const { nodes } of scopes) {
+      for (const node of nodes) {
+        if (node.type === 'bpmn:EndEvent' || isTriggeredSeparately(node) || isCompensationEvent(node)) continue;
+        if (sequenceFlows(node.outgoing).length === 0) report(node.id, 'Has no outgoing sequence flow and is not an end event');
+      }
+    }
+  });
+  run('superfluous-gateway', (report) => {
+    for (const gateway of elements.filter((el) => is(el, 'bpmn:Gateway') && !el.labelTarget)) {
+      if (sequenceFlows(gateway.outgoing).length === 1 && sequenceFlows(gateway.incoming).length <= 1) {
+        report(gateway.id, 'Has a single outgoing flow and does not join flows');
+      }
+    }
+  });
+  run('conditional-flows', (report) => {
+    const gateways = elements.filter(
+      (el) => (is(el, 'bpmn:ExclusiveGateway') || is(el, 'bpmn:InclusiveGateway')) && !el.labelTarget
+    );
+    for (const gateway of gateways) {
+      const outgoing = sequenceFlows(gateway.outgoing);
+      if (outgoing.length < 2) continue;
+      for (const flow of outgoing) {
+        const bo = flow.businessObject;
+        if (bo && bo !== gateway.businessObject?.default && !bo.conditionExpression) {
+          report(flow.id, `Branch of ${nameOf(gateway)} has no condition and is not the default flow`);
+        }
+      }
+    }
+  });
+  run('task-name', (report) => {
+    for (const task of elements.filter((el) => is(el, 'bpmn:Task') && !el.labelTarget)) {
+      if (!task.businessObject?.name?.trim()) report(task.id, 'Task has no name');
+    }
+  });
+  run('outside-lane', (report) => {
+    for (const { node, lane } of getLaneAssignments(elements)) {
+      if (!lane) report(node.id, 'Is not assigned to any lane');
+      else if (!isInside(node, lane)) report(node.id, `Lies outside its lane ${nameOf(lane)}`);
+    }
+  });
+
+  return problems.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
+
+function is(element: LintElement, type: string): boolean {
+  return element.businessObject?.$instanceOf?.(type) === true;
+}
+
+function nameOf(element: LintElement): string {
+  return element.businessObject?.name?.trim() || element.id;
+}
+
+function sequenceFlows(connections: LintElement[] = []): LintElement[] {
+  return connections.filter((c) => c.type === 'bpmn:SequenceFlow');
+}
+
+/** Event subprocesses and compensation handlers are started by events, not by incoming flows. */
+function isTriggeredSeparately(node: LintElement): boolean {
+  return node.businessObject?.triggeredByEvent === true || node.businessObject?.isForCompensation === true;
+}
+
+function isCompensationEvent(node: LintElement): boolean {
+  return (node.businessObject?.eventDefinitions ?? []).some((def) => def.$type === 'bpmn:CompensateEventDefinition');
+}
+
+/** Flow nodes grouped by the element they are drawn in; ad-hoc subprocesses have no required flow. */
+function getFlowScopes(elements: LintElement[]): FlowScope[] {
+  const scopes = new Map<LintElement, LintElement[]>();
+  for (const element of elements) {
+    if (!is(element, 'bpmn:FlowNode') || element.labelTarget || !element.parent) continue;
+    if (is(element.parent, 'bpmn:AdHocSubProcess')) continue;
+    const nodes = scopes.get(element.parent) ?? [];
+    nodes.push(element);
+    scopes.set(element.parent, nodes);
+  }
+  return Array.from(scopes, ([container, nodes]) => ({ container, nodes }));
+}
+
+/** Nodes no start event leads to, following sequence flows (and flows leaving boundary events). */
+function findUnreachable({ nodes }: FlowScope): LintElement[] {
+  const starts = nodes.filter((n) => n.type === 'bpmn:StartEvent');
+  if (starts.length === 0) return [];
+
+  const graphNodes = nodes.filter((n) => n.type !== 'bpmn:BoundaryEvent');
+  const { nodeMap, adjacency } = buildGraphFromElements(
+    graphNodes.map((n) => ({
+      id: n.id,
+      parent: { id: n.parent?.id ?? '' },
+      width: n.width ?? 0,
+      height: n.height ?? 0,
+      outgoing: sequenceFlows(n.outgoing).map((flow) => ({ target: { id: flow.target?.id ?? '' } }))
+    }))
+  );
+  addBoundaryEdges(
+    nodes
+      .filter((n) => n.type === 'bpmn:BoundaryEvent')
+      .map((n) => ({
+        host: n.host,
+        outgoing: sequenceFlows(n.outgoing).map((flow) => ({ target: { id: flow.target?.id ?? '' } }))
+      })),
+    nodeMap,
+    adjacency
+  );
+
+  const reached = new Set(starts.map((n) => n.id));
+  const queue = [...reached];
+  while (queue.length > 0) {
+    for (const next of adjacency.get(queue.shift()!) ?? []) {
+      if (reached.has(next)) continue;
+      reached.add(next);
+      queue.push(next);
+    }
+  }
+  return graphNodes.filter((n) => !reached.has(n.id) && !isTriggeredSeparately(n));
+}
+
+/** Every flow node drawn directly in a pool with lanes, with the leaf lane listing it (if any). */
+function getLaneAssignments(elements: LintElement[]): Array<{ node: LintElement; lane?: LintElement }> {
+  const lanes = elements.filter((el) => el.type === 'bpmn:Lane');
+  const leafLanes = lanes.filter((lane) => !lanes.some((other) => other.parent === lane));
+  const pools = new Set(leafLanes.map(getPool));
+
+  return elements
+    .filter(
+      (el) =>
+        is(el, 'bpmn:FlowNode') &&
+        !el.labelTarget &&
+        el.type !== 'bpmn:BoundaryEvent' &&
+        el.parent != null &&
+        pools.has(el.parent)
+    )
+    .map((node) => ({
+      node,
+      lane: leafLanes.find((lane) => lane.businessObject?.flowNodeRef?.includes(node.businessObject))
+    }));
+}
+
+function getPool(lane: LintElement): LintElement | undefined {
+  let current: LintElement | undefined = lane;
+  while (current?.type === 'bpmn:Lane') current = current.parent;
+  return current;
+}
+
+function isInside(element: LintElement, container: LintElement): boolean {
+  const x = element.x ?? 0;
+  const y = element.y ?? 0;
+  const cx = container.x ?? 0;
+  const cy = container.y ?? 0;
+  return (
+    x >= cx &&
+    y >= cy &&
+    x + (element.width ?? 0) <= cx + (container.width ?? 0) &&
+    y + (element.height ?? 0) <= cy + (container.height ?? 0)
+  );
+}
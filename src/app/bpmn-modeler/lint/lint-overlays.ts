@@ -0,0 +1,62 @@
+import type { LintProblem } from './bpmn-lint';
+
+const LINT_OVERLAY = 'lint-problem';
+
+interface LintCanvas {
+  addMarker: (elementId: string, marker: string) => void;
+  removeMarker: (elementId: string, marker: string) => void;
+}
+
+interface LintOverlayService {
+  add: (elementId: string, type: string, overlay: { position: { left: number; top: number }; html: string }) => string;
+  remove: (filter: { type: string }) => void;
+}
+
+interface LintElementRegistry {
+  get: (id: string) => { width?: number; waypoints?: unknown[] } | undefined;
+}
+
+/** Badges the elements with lint problems on the canvas; hovering a badge lists the messages. */
+export class LintOverlays {
+  private marked = new Map<string, string>();
+
+  constructor(
+    private canvas: LintCanvas,
+    private overlays: LintOverlayService,
+    private elementRegistry: LintElementRegistry
+  ) {}
+
+  show(problems: LintProblem[]): void {
+    this.clear();
+    const byElement = new Map<string, LintProblem[]>();
+    for (const problem of problems) {
+      byElement.set(problem.elementId, [...(byElement.get(problem.elementId) ?? []), problem]);
+    }
+
+    byElement.forEach((elementProblems, elementId) => {
+      const element = this.elementRegistry.get(elementId);
+      // Process roots have no shape to badge; their problems are only listed
+      if (!element || (element.width == null && !element.waypoints)) return;
+      const severity = elementProblems.some((p) => p.severity === 'error') ? 'error' : 'warning';
+      const title = escapeHtml(elementProblems.map((p) => p.message).join('\n'));
+      this.overlays.add(elementId, LINT_OVERLAY, {
+        position: { left: -10, top: -10 },
+        html: `<div class="lint-badge lint-badge-${severity}" title="${title}">!</div>`
+      });
+      this.canvas.addMarker(elementId, `lint-${severity}`);
+      this.marked.set(elementId, `lint-${severity}`);
+    });
+  }
+
+  clear(): void {
+    this.overlays.remove({ type: LINT_OVERLAY });
+    this.marked.forEach((marker, elementId) => {
+      if (this.elementRegistry.get(elementId)) this.canvas.removeMarker(elementId, marker);
+    });
+    this.marked.clear();
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
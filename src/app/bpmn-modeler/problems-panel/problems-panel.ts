@@ -0,0 +1,43 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import {
+  LINT_RULES,
+  type LintProblem,
+  type LintRuleId,
+  type LintSeverities,
+  type LintSeverity
+} from '../lint/bpmn-lint';
+
+export interface ProblemReportEntry {
+  problem: LintProblem;
+  title: string;
+}
+
+@Component({
+  selector: 'app-problems-panel',
+  templateUrl: './problems-panel.html',
+  styleUrls: ['./problems-panel.css'],
+  standalone: true
+})
+export class ProblemsPanelComponent {
+  @Input() entries: ProblemReportEntry[] = [];
+  @Input() activeEntry: ProblemReportEntry | null = null;
+  @Input() severities: LintSeverities = {};
+  @Output() focusEntry = new EventEmitter<ProblemReportEntry>();
+  @Output() severityChanged = new EventEmitter<{ ruleId: LintRuleId; severity: LintSeverity }>();
+  @Output() closed = new EventEmitter<void>();
+
+  readonly rules = Object.entries(LINT_RULES).map(([id, rule]) => ({ id: id as LintRuleId, ...rule }));
+  readonly severityOptions: LintSeverity[] = ['error', 'warning', 'off'];
+
+  get errorCount(): number {
+    return this.entries.filter((entry) => entry.problem.severity === 'error').length;
+  }
+
+  severityOf(ruleId: LintRuleId): LintSeverity {
+    return this.severities[ruleId] ?? LINT_RULES[ruleId].defaultSeverity;
+  }
+
+  onSeverityChange(ruleId: LintRuleId, event: Event) {
+    this.severityChanged.emit({ ruleId, severity: (event.target as HTMLSelectElement).value as LintSeverity });
+  }
+}